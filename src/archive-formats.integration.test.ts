@@ -224,7 +224,7 @@ describe('Archive Format Integration Tests', () => {
             const localAsset = new LocalFileAsset(unsupportedPath);
             const archiveAsset = new ArchiveFileAsset(localAsset);
 
-            await expect(archiveAsset.copyTo()).rejects.toThrow('Failed to extract archive');
+            await expect(archiveAsset.copyTo()).rejects.toThrow('Unsupported archive format');
 
             await archiveAsset.dispose();
         });
@@ -0,0 +1,182 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach, afterEach } from 'vitest';
+import { vol } from 'memfs';
+import path from 'node:path';
+import { faker } from '@faker-js/faker';
+import { DownloadCache, formatSize, parseDuration, parseSize } from './cache.ts';
+
+vitest.mock('node:fs/promises');
+
+const DAY = 24 * 60 * 60 * 1000;
+
+beforeEach(() => {
+    vol.reset();
+    vitest.clearAllMocks();
+    vitest.useFakeTimers({ toFake: ['Date'] });
+});
+
+afterEach(() => {
+    vitest.useRealTimers();
+});
+
+// Create a cache entry of the given size, last accessed the given number of days ago
+async function addEntry(cache: DownloadCache, cacheId: string, size: number, daysAgo: number) {
+    vitest.setSystemTime(Date.parse('2026-01-31T00:00:00Z') - daysAgo * DAY);
+    vol.fromJSON({ 'file.bin': 'x'.repeat(size) }, path.join(cache.cacheDir, cacheId));
+    await cache.touch(cacheId);
+    vitest.setSystemTime(Date.parse('2026-01-31T00:00:00Z'));
+}
+
+describe('DownloadCache', () => {
+
+    it('lists entries with metadata, most recently used first', async () => {
+        const cacheDir = faker.system.directoryPath();
+        const cache = new DownloadCache(cacheDir);
+        await addEntry(cache, 'owner/repo/v1.0.0', 10, 2);
+        await addEntry(cache, 'owner/repo/v2.0.0', 20, 1);
+        vol.fromJSON({ 'index-v5/foreign': 'not managed' }, cacheDir);
+
+        const entries = await cache.list();
+
+        expect(entries).toEqual([
+            expect.objectContaining({ cacheId: 'owner/repo/v2.0.0', size: 20, path: path.join(cacheDir, 'owner/repo/v2.0.0') }),
+            expect.objectContaining({ cacheId: 'owner/repo/v1.0.0', size: 10, lastAccess: '2026-01-29T00:00:00.000Z' }),
+        ]);
+    });
+
+    it('keeps creation time when touched again', async () => {
+        const cache = new DownloadCache(faker.system.directoryPath());
+        await addEntry(cache, 'entry', 1, 5);
+
+        await cache.touch('entry');
+
+        expect(await cache.list()).toEqual([expect.objectContaining({
+            created: '2026-01-26T00:00:00.000Z',
+            lastAccess: '2026-01-31T00:00:00.000Z',
+        })]);
+    });
+
+    it('knows entries recorded by a previous access', async () => {
+        const cache = new DownloadCache(faker.system.directoryPath());
+        await addEntry(cache, 'entry', 1, 5);
+
+        await expect(cache.has('entry')).resolves.toBe(true);
+        await expect(cache.has('other')).resolves.toBe(false);
+    });
+
+    it('prunes entries not accessed for the given time', async () => {
+        const cache = new DownloadCache(faker.system.directoryPath());
+        await addEntry(cache, 'old', 10, 40);
+        await addEntry(cache, 'new', 10, 1);
+
+        const removed = await cache.prune({ olderThan: 30 * DAY });
+
+        expect(removed.map(e => e.cacheId)).toEqual(['old']);
+        expect((await cache.list()).map(e => e.cacheId)).toEqual(['new']);
+        expect(vol.existsSync(path.join(cache.cacheDir, 'old'))).toBe(false);
+    });
+
+    it('prunes least recently used entries exceeding the given size', async () => {
+        const cache = new DownloadCache(faker.system.directoryPath());
+        await addEntry(cache, 'a', 10, 3);
+        await addEntry(cache, 'b', 10, 2);
+        await addEntry(cache, 'c', 10, 1);
+
+        const removed = await cache.prune({ maxSize: 25 });
+
+        expect(removed.map(e => e.cacheId)).toEqual(['a']);
+        expect((await cache.list()).map(e => e.cacheId)).toEqual(['c', 'b']);
+    });
+
+    it('clears managed entries only', async () => {
+        const cacheDir = faker.system.directoryPath();
+        const cache = new DownloadCache(cacheDir);
+        await addEntry(cache, 'a', 10, 1);
+        vol.fromJSON({ 'index-v5/foreign': 'not managed' }, cacheDir);
+
+        await cache.clear();
+
+        expect(await cache.list()).toEqual([]);
+        expect(vol.existsSync(path.join(cacheDir, 'index-v5/foreign'))).toBe(true);
+    });
+
+    it('waits for entries being written before removing them', async () => {
+        const cache = new DownloadCache(faker.system.directoryPath());
+        await addEntry(cache, 'a', 10, 1);
+        const order: string[] = [];
+        let removing: Promise<unknown> | undefined;
+
+        await cache.lock('a', async () => {
+            removing = cache.remove('a', { pollInterval: 1 }).then(() => order.push('removed'));
+            await new Promise(resolve => setTimeout(resolve, 10));
+            order.push('written');
+        });
+        await removing;
+
+        expect(order).toEqual(['written', 'removed']);
+        expect(vol.existsSync(path.join(cache.cacheDir, 'a'))).toBe(false);
+    });
+
+    it('rejects cache IDs outside of the cache directory', async () => {
+        const cacheDir = faker.system.directoryPath();
+        const cache = new DownloadCache(cacheDir);
+        vol.fromJSON({ 'outside/file.bin': 'keep' }, path.dirname(cacheDir));
+        await addEntry(cache, 'a', 10, 1);
+        vol.fromJSON({ [`.vsce-helper/${encodeURIComponent('../outside')}.json`]: JSON.stringify({ cacheId: '../outside', created: '', lastAccess: '' }) }, cacheDir);
+
+        await expect(cache.remove('../outside')).rejects.toThrow(`Invalid cache ID '../outside' outside of ${cacheDir}`);
+        await expect(cache.clear()).resolves.toEqual([expect.objectContaining({ cacheId: 'a' })]);
+        expect(vol.existsSync(path.join(path.dirname(cacheDir), 'outside/file.bin'))).toBe(true);
+    });
+});
+
+describe('parseSize', () => {
+
+    it('parses sizes with units', () => {
+        expect(parseSize('512')).toBe(512);
+        expect(parseSize('2K')).toBe(2048);
+        expect(parseSize('1.5MB')).toBe(1.5 * 1024 * 1024);
+        expect(parseSize('2GiB')).toBe(2 * 1024 ** 3);
+    });
+
+    it('rejects invalid sizes', () => {
+        expect(() => parseSize('lots')).toThrow('Invalid size');
+    });
+});
+
+describe('parseDuration', () => {
+
+    it('parses durations with units', () => {
+        expect(parseDuration('90s')).toBe(90000);
+        expect(parseDuration('12h')).toBe(12 * 60 * 60 * 1000);
+        expect(parseDuration('30d')).toBe(30 * DAY);
+    });
+
+    it('rejects durations without unit', () => {
+        expect(() => parseDuration('30')).toThrow('Invalid duration');
+    });
+});
+
+describe('formatSize', () => {
+
+    it('formats sizes with units', () => {
+        expect(formatSize(512)).toBe('512 B');
+        expect(formatSize(1536)).toBe('1.5 KB');
+        expect(formatSize(3 * 1024 ** 3)).toBe('3.0 GB');
+    });
+});
@@ -0,0 +1,261 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { FileLock, FileLockOptions } from './file-lock.ts';
+
+/**
+ * Directory holding the metadata of the cache entries, i.e., <cacheDir>/<dir>/<encoded cacheId>.json.
+ */
+export const CACHE_META_DIR = '.vsce-helper';
+
+/**
+ * Metadata of a cache entry.
+ */
+export type CacheEntryMeta = {
+    cacheId: string;
+    /** Time the entry was created, as ISO string. */
+    created: string;
+    /** Time the entry was last used, as ISO string. */
+    lastAccess: string;
+};
+
+/**
+ * Cache entry with its current size on disk.
+ */
+export type CacheEntry = CacheEntryMeta & {
+    /** Directory of the cache entry. */
+    path: string;
+    /** Size of the cache entry in bytes. */
+    size: number;
+};
+
+/** Options for pruning the cache */
+export type PruneOptions = {
+    /** Maximum total size of the cache in bytes, least recently used entries are removed first. */
+    maxSize?: number | undefined;
+    /** Maximum age in milliseconds since the last access of an entry. */
+    olderThan?: number | undefined;
+};
+
+const SIZE_UNITS: Record<string, number> = { '': 1, k: 1024, m: 1024 ** 2, g: 1024 ** 3, t: 1024 ** 4 };
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000, w: 7 * 24 * 60 * 60 * 1000 };
+
+/**
+ * Parse a size given in bytes or with unit, e.g. 500M or 2GB.
+ * @param size The size to parse.
+ * @returns The size in bytes.
+ */
+export function parseSize(size: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*([kmgt]?)i?b?$/i.exec(size.trim());
+    if (!match) {
+        throw new Error(`Invalid size '${size}', expected a number with optional unit K, M, G or T`);
+    }
+    return Math.round(Number(match[1]) * SIZE_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * Parse a duration given with unit, e.g. 12h or 30d.
+ * @param duration The duration to parse.
+ * @returns The duration in milliseconds.
+ */
+export function parseDuration(duration: string): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d|w)$/i.exec(duration.trim());
+    if (!match) {
+        throw new Error(`Invalid duration '${duration}', expected a number with unit ms, s, m, h, d or w`);
+    }
+    return Math.round(Number(match[1]) * DURATION_UNITS[match[2].toLowerCase()]);
+}
+
+/**
+ * Format a size in bytes for display, e.g. 1.5 MB.
+ */
+export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+    let unit = 0;
+    while (bytes >= 1024 && unit < units.length - 1) {
+        bytes /= 1024;
+        unit++;
+    }
+    return `${unit === 0 ? bytes : bytes.toFixed(1)} ${units[unit]}`;
+}
+
+async function directorySize(dir: string): Promise<number> {
+    const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+    const sizes = await Promise.all(entries.map(async entry => {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+            return directorySize(entryPath);
+        }
+        const stat = await fs.lstat(entryPath).catch(() => undefined);
+        return stat?.size ?? 0;
+    }));
+    return sizes.reduce((a, b) => a + b, 0);
+}
+
+/**
+ * Download cache keeping track of the last access of each entry, i.e., <cacheDir>/<cacheId>.
+ * Only entries with metadata are managed, so that the cache directory can be shared
+ * with other tools, e.g. the npm cache.
+ */
+export class DownloadCache {
+
+    constructor(
+        public readonly cacheDir: string,
+    ) {}
+
+    protected get metaDir() {
+        return path.join(this.cacheDir, CACHE_META_DIR);
+    }
+
+    protected metaPath(cacheId: string) {
+        return path.join(this.metaDir, `${encodeURIComponent(cacheId)}.json`);
+    }
+
+    /**
+     * Directory of the given cache entry.
+     * @throws If the cache ID does not resolve to a directory inside the cache directory.
+     */
+    protected entryPath(cacheId: string) {
+        const entryPath = path.join(this.cacheDir, cacheId);
+        const relative = path.relative(this.cacheDir, entryPath);
+        if (relative === '' || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+            throw new Error(`Invalid cache ID '${cacheId}' outside of ${this.cacheDir}`);
+        }
+        return entryPath;
+    }
+
+    /**
+     * Check whether the given cache entry has been recorded by a previous access.
+     * @param cacheId The cache ID of the entry.
+     */
+    public async has(cacheId: string) {
+        return await this.readMeta(this.metaPath(cacheId)) !== undefined;
+    }
+
+    /**
+     * Record an access to the given cache entry.
+     * @param cacheId The cache ID of the entry.
+     */
+    public async touch(cacheId: string) {
+        const now = new Date().toISOString();
+        const previous = await this.readMeta(this.metaPath(cacheId));
+        const meta: CacheEntryMeta = { cacheId, created: previous?.created ?? now, lastAccess: now };
+        await fs.mkdir(this.metaDir, { recursive: true });
+        await fs.writeFile(this.metaPath(cacheId), JSON.stringify(meta, null, 2), { encoding: 'utf8' });
+    }
+
+    /**
+     * Run a task writing to the given cache entry while holding a lock shared with other processes.
+     * @param cacheId The cache ID of the entry.
+     * @param task The task to run.
+     * @param options Options for acquiring the lock.
+     * @returns A promise that settles with the task.
+     */
+    public async lock<T>(cacheId: string, task: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+        return new FileLock(path.join(this.metaDir, `${encodeURIComponent(cacheId)}.lock`), options).run(task);
+    }
+
+    /**
+     * List all managed cache entries, most recently used first.
+     */
+    public async list(): Promise<CacheEntry[]> {
+        const metaFiles = await fs.readdir(this.metaDir).catch(() => [] as string[]);
+        const entries = await Promise.all(metaFiles.filter(f => f.endsWith('.json')).map(async metaFile => {
+            const meta = await this.readMeta(path.join(this.metaDir, metaFile));
+            const entryPath = meta !== undefined ? this.tryEntryPath(meta.cacheId) : undefined;
+            if (meta === undefined || entryPath === undefined) {
+                return undefined;
+            }
+            return { ...meta, path: entryPath, size: await directorySize(entryPath) };
+        }));
+        return entries
+            .filter(entry => entry !== undefined)
+            .sort((a, b) => b.lastAccess.localeCompare(a.lastAccess));
+    }
+
+    /**
+     * Remove a single cache entry including its metadata,
+     * waiting for other processes writing to the entry to finish.
+     * @param cacheId The cache ID of the entry.
+     * @param options Options for acquiring the lock of the entry.
+     * @throws If the cache ID does not resolve to a directory inside the cache directory.
+     */
+    public async remove(cacheId: string, options: FileLockOptions = {}) {
+        const entryPath = this.entryPath(cacheId);
+        await this.lock(cacheId, async () => {
+            await fs.rm(entryPath, { recursive: true, force: true });
+            await fs.rm(this.metaPath(cacheId), { force: true });
+        }, options);
+    }
+
+    /**
+     * Remove entries not accessed for the given time, and least recently used entries
+     * until the cache fits into the given size.
+     * @param options The limits to apply.
+     * @param lockOptions Options for acquiring the lock of each entry.
+     * @returns The removed entries.
+     */
+    public async prune(options: PruneOptions, lockOptions: FileLockOptions = {}): Promise<CacheEntry[]> {
+        const entries = await this.list();
+        const removed = [] as CacheEntry[];
+        const cutoff = options.olderThan !== undefined ? new Date(Date.now() - options.olderThan).toISOString() : undefined;
+        let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+        // Walk from least to most recently used
+        for (const entry of [...entries].reverse()) {
+            const expired = cutoff !== undefined && entry.lastAccess < cutoff;
+            const exceeds = options.maxSize !== undefined && total > options.maxSize;
+            if (expired || exceeds) {
+                await this.remove(entry.cacheId, lockOptions);
+                removed.push(entry);
+                total -= entry.size;
+            }
+        }
+        return removed;
+    }
+
+    /**
+     * Remove all managed cache entries.
+     * @param lockOptions Options for acquiring the lock of each entry.
+     * @returns The removed entries.
+     */
+    public async clear(lockOptions: FileLockOptions = {}): Promise<CacheEntry[]> {
+        const entries = await this.list();
+        for (const entry of entries) {
+            await this.remove(entry.cacheId, lockOptions);
+        }
+        return entries;
+    }
+
+    // Directory of the given cache entry, undefined for (tampered) cache IDs outside the cache directory
+    private tryEntryPath(cacheId: string) {
+        try {
+            return this.entryPath(cacheId);
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async readMeta(metaFile: string): Promise<CacheEntryMeta | undefined> {
+        try {
+            return JSON.parse(await fs.readFile(metaFile, { encoding: 'utf8' })) as CacheEntryMeta;
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,214 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { vol } from 'memfs';
+import path from 'node:path';
+import { faker } from '@faker-js/faker';
+import { CONFIG_SCHEMA_PATH, createDownloadables, DownloaderConfig, loadConfig, resolveTemplate, validateConfig } from './config.ts';
+import { VSCE_TARGETS } from './downloader.ts';
+import { ArchiveFileAsset, LocalFileAsset, WebFileAsset } from './file-assets.ts';
+import { GitHubReleaseAsset, GitHubRepoAsset } from './github-assets.ts';
+
+vitest.mock('node:fs/promises');
+
+beforeEach(() => {
+    vol.reset();
+    vitest.clearAllMocks();
+});
+
+const config: DownloaderConfig = {
+    tools: {
+        release: {
+            name: 'Release Tool',
+            destination: 'release-tool',
+            version: '1.0.0',
+            asset: { type: 'github-release', owner: 'my-org', repo: 'my-tool', name: 'my-tool-{version}-{target}.tar.gz' },
+            archive: { strip: 1 },
+        },
+        web: {
+            name: 'Web Tool',
+            destination: 'web-tool',
+            targets: ['linux-x64', 'win32-x64'],
+            asset: { type: 'web', url: { 'win32-x64': 'https://example.com/{version}/tool.exe', default: 'https://example.com/{version}/tool' } },
+        },
+        local: {
+            name: 'Local Tool',
+            destination: 'local-tool',
+            asset: { type: 'local', path: 'bin/{os}/tool' },
+            optional: true,
+        },
+        repo: {
+            name: 'Repo Tool',
+            destination: 'repo-tool',
+            asset: { type: 'github-repo', owner: 'my-org', repo: 'my-tool', path: 'scripts' },
+        },
+    },
+};
+
+describe('validateConfig', () => {
+
+    it('accepts a valid configuration', () => {
+        expect(validateConfig(config)).toBe(config);
+    });
+
+    it('rejects unknown asset types and missing properties', () => {
+        const invalid = {
+            tools: {
+                a: { name: 'A', destination: 'a', asset: { type: 'ftp', url: 'ftp://example.com' } },
+                b: { name: 'B', asset: { type: 'web', url: 'https://example.com' } },
+            },
+        };
+
+        expect(() => validateConfig(invalid, 'test.yaml')).toThrow(/^Invalid test\.yaml:\n.*\/tools\/a\/asset[\s\S]*\/tools\/b must have required property 'destination'/);
+    });
+
+    it('lists the supported targets in the published schema', () => {
+        const schema = JSON.parse(readFileSync(CONFIG_SCHEMA_PATH, { encoding: 'utf8' }));
+
+        expect(schema.definitions.target.enum).toEqual([...VSCE_TARGETS]);
+    });
+});
+
+describe('loadConfig', () => {
+
+    it('loads YAML configuration', async () => {
+        const filePath = path.join(faker.system.directoryPath(), 'downloader.config.yaml');
+        vol.fromJSON({ [filePath]: [
+            'tools:',
+            '  myTool:',
+            '    name: My Tool',
+            '    destination: my-tool',
+            '    asset:',
+            '      type: web',
+            '      url: https://example.com/tool',
+        ].join('\n') });
+
+        await expect(loadConfig(filePath)).resolves.toEqual({
+            tools: { myTool: { name: 'My Tool', destination: 'my-tool', asset: { type: 'web', url: 'https://example.com/tool' } } },
+        });
+    });
+
+    it('loads JSON configuration', async () => {
+        const filePath = path.join(faker.system.directoryPath(), 'downloader.config.json');
+        vol.fromJSON({ [filePath]: JSON.stringify(config) });
+
+        await expect(loadConfig(filePath)).resolves.toEqual(config);
+    });
+});
+
+describe('resolveTemplate', () => {
+
+    it('replaces placeholders', () => {
+        expect(resolveTemplate('tool-{version}-{os}-{arch}.zip', 'win32-arm64', '1.2.3')).toBe('tool-1.2.3-win32-arm64.zip');
+    });
+
+    it('replaces target conventions', () => {
+        expect(resolveTemplate('tool-{rustTriple}{archive}', 'alpine-arm64', undefined)).toBe('tool-aarch64-unknown-linux-musl.tar.gz');
+        expect(resolveTemplate('tool_{goos}_{goarch}{exe}', 'win32-x64', undefined)).toBe('tool_windows_amd64.exe');
+        expect(() => resolveTemplate('tool_{debianArch}.deb', 'darwin-arm64', undefined)).toThrow('No debianArch given');
+    });
+
+    it('picks the template for the target or the default', () => {
+        const template = { 'linux-x64': 'linux', default: 'other' };
+
+        expect(resolveTemplate(template, 'linux-x64', undefined)).toBe('linux');
+        expect(resolveTemplate(template, 'darwin-arm64', undefined)).toBe('other');
+        expect(resolveTemplate({ 'linux-x64': 'linux' }, 'darwin-arm64', undefined)).toBeUndefined();
+    });
+
+    it('fails on missing version', () => {
+        expect(() => resolveTemplate('tool-{version}', 'linux-x64', undefined)).toThrow('No version given');
+    });
+});
+
+describe('createDownloadables', () => {
+    const baseDir = '/project';
+
+    it('creates downloadables for all tools', () => {
+        const downloadables = createDownloadables(config, baseDir);
+
+        expect(Object.keys(downloadables)).toEqual(['release', 'web', 'local', 'repo']);
+        expect(downloadables.release).toMatchObject({ name: 'Release Tool', destination: 'release-tool' });
+        expect(downloadables.release.optional).toBeUndefined();
+        expect(downloadables.local.optional).toBe(true);
+    });
+
+    it('wraps archives and passes the configured version', async () => {
+        const { release } = createDownloadables(config, baseDir);
+
+        const asset = await release.getAsset!('linux-x64', '2.0.0');
+
+        expect(asset).toBeInstanceOf(ArchiveFileAsset);
+        const subject = (asset as unknown as { subject: GitHubReleaseAsset }).subject;
+        expect(subject).toBeInstanceOf(GitHubReleaseAsset);
+        expect(subject).toMatchObject({ tag: '2.0.0', assetName: 'my-tool-2.0.0-linux-x64.tar.gz' });
+    });
+
+    it('provides no asset for web unless listed in the targets', async () => {
+        const { release, local } = createDownloadables(config, baseDir);
+        const { webOnly } = createDownloadables({ tools: { webOnly: { ...config.tools.local, targets: ['web'] } } }, baseDir);
+
+        await expect(release.getAsset!('web', '2.0.0')).resolves.toBeUndefined();
+        await expect(local.getAsset!('alpine-arm64')).resolves.toBeInstanceOf(LocalFileAsset);
+        await expect(webOnly.getAsset!('web')).resolves.toBeInstanceOf(LocalFileAsset);
+    });
+
+    it('resolves per-target templates and restricts targets', async () => {
+        const { web } = createDownloadables(config, baseDir);
+
+        const winAsset = await web.getAsset!('win32-x64', '1.0.0');
+        const linuxAsset = await web.getAsset!('linux-x64', '1.0.0');
+
+        expect(winAsset).toBeInstanceOf(WebFileAsset);
+        expect(winAsset).toMatchObject({ url: new URL('https://example.com/1.0.0/tool.exe'), version: '1.0.0' });
+        expect(linuxAsset).toMatchObject({ url: new URL('https://example.com/1.0.0/tool') });
+        await expect(web.getAsset!('darwin-arm64', '1.0.0')).resolves.toBeUndefined();
+    });
+
+    it('resolves local paths relative to the base directory', async () => {
+        const { local } = createDownloadables(config, baseDir);
+
+        await expect(local.getAsset!('linux-x64')).resolves.toMatchObject({ filepath: path.resolve(baseDir, 'bin/linux/tool') });
+        await expect(local.getAsset!('linux-x64', 'file:/other/tool')).resolves.toMatchObject({ filepath: path.resolve('/other/tool') });
+        expect(await local.getAsset!('linux-x64')).toBeInstanceOf(LocalFileAsset);
+    });
+
+    it('gives the version to local assets', async () => {
+        const { local } = createDownloadables({ tools: { local: { ...config.tools.local, version: '1.0.0' } } }, baseDir);
+
+        expect((await local.getAsset!('linux-x64'))?.version).toBe('1.0.0');
+        expect((await local.getAsset!('linux-x64', '2.0.0'))?.version).toBe('2.0.0');
+        expect((await local.getAsset!('linux-x64', 'file:/other/tool'))?.version).toBeUndefined();
+    });
+
+    it('defaults the repository ref to the version tag', async () => {
+        const { repo } = createDownloadables(config, baseDir);
+
+        await expect(repo.getAsset!('linux-x64', 'v1.0.0')).resolves.toMatchObject({ ref: 'tags/v1.0.0' });
+        expect(await repo.getAsset!('linux-x64')).toBeInstanceOf(GitHubRepoAsset);
+        await expect(repo.getAsset!('linux-x64')).resolves.toMatchObject({ ref: 'main' });
+    });
+
+    it('resolves configured repository refs', async () => {
+        const { repo } = createDownloadables({
+            tools: { repo: { ...config.tools.repo, asset: { type: 'github-repo', owner: 'my-org', repo: 'my-tool', ref: 'heads/release-{version}' } } },
+        }, baseDir);
+
+        await expect(repo.getAsset!('linux-x64', '1.0')).resolves.toMatchObject({ ref: 'heads/release-1.0' });
+    });
+});
@@ -0,0 +1,294 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { readFileSync } from 'node:fs';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { Ajv, ValidateFunction } from 'ajv';
+import { parse as parseYaml } from 'yaml';
+import { Asset, Downloadable, Downloader, DownloadResult, VsceTarget } from './downloader.ts';
+import { ArchiveFileAsset, LocalFileAsset, WebFileAsset } from './file-assets.ts';
+import { GitHubReleaseAsset, GitHubRepoAsset, GitHubWorkflowAsset } from './github-assets.ts';
+import { TargetInfo } from './target-info.ts';
+
+/**
+ * Path of the published JSON schema of the configuration file.
+ */
+export const CONFIG_SCHEMA_PATH = fileURLToPath(new URL('../downloader.schema.json', import.meta.url));
+
+/**
+ * Configuration files looked up in the working directory, in this order.
+ */
+export const CONFIG_FILES = ['downloader.config.json', 'downloader.config.yaml', 'downloader.config.yml'] as const;
+
+/**
+ * String with placeholders {version}, {target}, {os} and {arch}, or the TargetInfo conventions
+ * {rustTriple}, {goos}, {goarch}, {debianArch}, {exe} and {archive}, or such strings per target with an optional default.
+ */
+export type Template = string | Partial<Record<VsceTarget | 'default', string>>;
+
+type GitHubConfig = {
+    owner: string;
+    repo: string;
+    /** Environment variable holding the GitHub token, defaults to GITHUB_TOKEN. */
+    tokenEnv?: string;
+};
+
+export type GitHubReleaseAssetConfig = GitHubConfig & {
+    type: 'github-release';
+    tag?: Template;
+    name: Template;
+    integrity?: string;
+    checksums?: string | boolean;
+    prerelease?: boolean;
+    draft?: boolean;
+};
+
+export type GitHubRepoAssetConfig = GitHubConfig & {
+    type: 'github-repo';
+    ref?: Template;
+    path?: string | string[];
+};
+
+export type GitHubWorkflowAssetConfig = GitHubConfig & {
+    type: 'github-workflow';
+    workflow: string;
+    artifact: Template;
+};
+
+export type WebAssetConfig = {
+    type: 'web';
+    url: Template;
+    filename?: Template;
+    integrity?: string;
+};
+
+export type LocalAssetConfig = {
+    type: 'local';
+    path?: Template;
+    targetName?: Template;
+    integrity?: string;
+};
+
+export type AssetConfig = GitHubReleaseAssetConfig | GitHubRepoAssetConfig | GitHubWorkflowAssetConfig | WebAssetConfig | LocalAssetConfig;
+
+/**
+ * Configuration of a single downloadable tool.
+ */
+export type ToolConfig = {
+    name: string;
+    destination: string;
+    /** Default version, overridden by the downloader section of package.json and --set. */
+    version?: string;
+    /** Targets the tool is available for, defaults to all but web. */
+    targets?: VsceTarget[];
+    asset: AssetConfig;
+    /** Extract the asset as archive, stripping the given number of directory levels. */
+    archive?: { strip?: number };
+    /** Report a failed download as warning without failing the run. */
+    optional?: boolean;
+};
+
+/**
+ * Content of the configuration file.
+ */
+export type DownloaderConfig = {
+    tools: Record<string, ToolConfig>;
+};
+
+let validator: ValidateFunction<DownloaderConfig> | undefined;
+
+/**
+ * Validate a configuration against the published JSON schema.
+ * @param config The parsed configuration.
+ * @param source Name of the configuration for error messages.
+ * @returns The validated configuration.
+ * @throws If the configuration does not match the schema.
+ */
+export function validateConfig(config: unknown, source = 'configuration'): DownloaderConfig {
+    validator ??= new Ajv({ allErrors: true, strict: false })
+        .compile<DownloaderConfig>(JSON.parse(readFileSync(CONFIG_SCHEMA_PATH, { encoding: 'utf8' })));
+    if (!validator(config)) {
+        const errors = (validator.errors ?? []).map(e => `  ${e.instancePath || '/'} ${e.message}`);
+        throw new Error(`Invalid ${source}:\n${errors.join('\n')}`);
+    }
+    return config;
+}
+
+/**
+ * Load and validate a JSON or YAML configuration file.
+ * @param filePath Path to the configuration file.
+ * @returns The validated configuration.
+ */
+export async function loadConfig(filePath: string): Promise<DownloaderConfig> {
+    const content = await fs.readFile(filePath, { encoding: 'utf8' });
+    const ext = path.extname(filePath).toLowerCase();
+    const parsed: unknown = (ext === '.yaml' || ext === '.yml') ? parseYaml(content) : JSON.parse(content);
+    return validateConfig(parsed, filePath);
+}
+
+/**
+ * Resolve a template for the given target and version.
+ * @returns The resolved string, or undefined if the template has no entry for the target.
+ */
+export function resolveTemplate(template: Template | undefined, target: VsceTarget, version: string | undefined): string | undefined {
+    const value = typeof template === 'object' ? (template[target] ?? template.default) : template;
+    if (value === undefined) {
+        return undefined;
+    }
+    const [os, arch] = target.split('-');
+    const info = new TargetInfo(target);
+    const vars: Record<string, string | undefined> = {
+        target, os, arch, version,
+        rustTriple: info.rustTriple,
+        goos: info.goos,
+        goarch: info.goarch,
+        debianArch: info.debianArch,
+        exe: info.exeExtension,
+        archive: info.archiveExtension,
+    };
+    return value.replaceAll(/\{(\w+)\}/g, (placeholder, name: string) => {
+        if (!(name in vars)) {
+            return placeholder;
+        }
+        const replacement = vars[name];
+        if (replacement === undefined) {
+            throw new Error(`No ${name} given to resolve '${value}'.`);
+        }
+        return replacement;
+    });
+}
+
+function gitHubOptions(config: GitHubConfig) {
+    const token = process.env[config.tokenEnv ?? 'GITHUB_TOKEN'];
+    return token ? { token } : {};
+}
+
+function createAsset(config: AssetConfig, target: VsceTarget, version: string | undefined, baseDir: string): Asset | undefined {
+    const resolve = (template: Template | undefined) => resolveTemplate(template, target, version);
+    switch (config.type) {
+        case 'github-release': {
+            const name = resolve(config.name);
+            if (name === undefined) {
+                return undefined;
+            }
+            return new GitHubReleaseAsset(config.owner, config.repo, resolve(config.tag ?? '{version}') ?? '', name, {
+                ...gitHubOptions(config),
+                ...(config.integrity !== undefined ? { integrity: config.integrity } : {}),
+                ...(config.checksums !== undefined ? { checksums: config.checksums } : {}),
+                ...(config.prerelease !== undefined ? { prerelease: config.prerelease } : {}),
+                ...(config.draft !== undefined ? { draft: config.draft } : {}),
+            });
+        }
+        case 'github-repo':
+            return new GitHubRepoAsset(config.owner, config.repo, {
+                ...gitHubOptions(config),
+                ref: resolve(config.ref ?? (version !== undefined ? 'tags/{version}' : 'main')) ?? 'main',
+                ...(config.path !== undefined ? { path: config.path } : {}),
+            });
+        case 'github-workflow': {
+            const artifact = resolve(config.artifact);
+            if (artifact === undefined) {
+                return undefined;
+            }
+            return new GitHubWorkflowAsset(config.owner, config.repo, config.workflow, artifact, gitHubOptions(config));
+        }
+        case 'web': {
+            const url = resolve(config.url);
+            if (url === undefined) {
+                return undefined;
+            }
+            return new WebFileAsset(new URL(url), resolve(config.filename), version, {},
+                config.integrity !== undefined ? { integrity: config.integrity } : {});
+        }
+        case 'local': {
+            // A file: version, e.g. from package.json, takes precedence over a configured path
+            const fileVersion = version?.startsWith('file:') ? version.slice('file:'.length) : undefined;
+            const filePath = fileVersion ?? resolve(config.path);
+            if (filePath === undefined) {
+                return undefined;
+            }
+            return new LocalFileAsset(path.resolve(baseDir, filePath), resolve(config.targetName), {
+                ...(fileVersion === undefined && version !== undefined ? { version } : {}),
+                ...(config.integrity !== undefined ? { integrity: config.integrity } : {}),
+            });
+        }
+    }
+}
+
+/**
+ * Create the downloadables described by a configuration.
+ * @param config The validated configuration.
+ * @param baseDir Directory relative local paths are resolved against.
+ * @returns The downloadables by tool key.
+ */
+export function createDownloadables(config: DownloaderConfig, baseDir: string): Record<string, Downloadable> {
+    return Object.fromEntries(Object.entries(config.tools).map(([key, tool]) => [key, new Downloadable(
+        tool.name,
+        tool.destination,
+        async (target, version) => {
+            // Native tools are not available for web, unless listed explicitly
+            if (tool.targets !== undefined ? !tool.targets.includes(target) : target === 'web') {
+                return undefined;
+            }
+            const asset = createAsset(tool.asset, target, version ?? tool.version, baseDir);
+            if (asset !== undefined && tool.archive !== undefined) {
+                return new ArchiveFileAsset(asset, tool.archive.strip ?? 0);
+            }
+            return asset;
+        },
+        { optional: tool.optional === true },
+    )]));
+}
+
+/**
+ * Run the downloader command line interface for a configuration file.
+ * The configuration is given with --config <file>, or looked up in the working directory (see CONFIG_FILES).
+ * All other arguments are passed on to Downloader.run.
+ * @param argv The command line arguments.
+ * @returns A promise that resolves to the download results, see Downloader.run.
+ */
+export async function runFromConfig(argv: string[]): Promise<DownloadResult[]> {
+    const args = [...argv];
+    const index = args.findIndex(arg => arg === '--config' || arg.startsWith('--config='));
+    let configPath: string | undefined;
+    if (index >= 0) {
+        const [arg] = args.splice(index, 1);
+        configPath = arg.includes('=') ? arg.slice(arg.indexOf('=') + 1) : args.splice(index, 1)[0];
+        if (!configPath) {
+            throw new Error('Missing file name for --config.');
+        }
+    } else {
+        for (const file of CONFIG_FILES) {
+            if (await fs.stat(file).then(s => s.isFile(), () => false)) {
+                configPath = file;
+                break;
+            }
+        }
+        if (configPath === undefined) {
+            throw new Error(`No configuration found, expected --config <file> or one of ${CONFIG_FILES.join(', ')}.`);
+        }
+    }
+
+    const config = await loadConfig(configPath);
+    const projectDir = path.dirname(path.resolve(configPath));
+    const downloader = new Downloader(createDownloadables(config, projectDir))
+        .withProjectDir(projectDir)
+        .withTargetDir(path.join(projectDir, 'tools'));
+    downloader.withCacheDir(await downloader.defaultCacheDir());
+    return downloader.run(args);
+}
@@ -14,9 +14,9 @@
  * limitations under the License.
  */
 
-import * as os from 'node:os';
+import os from 'node:os';
 import { describe, it, expect, vitest, beforeEach } from 'vitest';
-import { AbstractAsset, Asset, DisposeFn, Disposable, Downloadable, Downloader } from './downloader.ts';
+import { AbstractAsset, Asset, DisposeFn, Disposable, Downloadable, Downloader, hostTarget, TARGET_LAYOUT, VSCE_TARGETS, VsceTarget, DownloadResult } from './downloader.ts';
 import { vol } from 'memfs';
 import fs from 'node:fs/promises';
 import path from 'node:path';
@@ -24,6 +24,10 @@ import { faker } from '@faker-js/faker';
 import { OutgoingHttpHeaders } from 'node:http';
 import { downloadFile } from './file-download.ts';
 import * as tar from 'tar';
+import { ConsoleLogger } from './logger.ts';
+import { DownloadCache } from './cache.ts';
+import { ArchiveFileAsset, WebFileAsset } from './file-assets.ts';
+import { ExtractionError, FrozenLockfileError, HttpError } from './errors.ts';
 
 const childProcessMock = vitest.hoisted(() => ({
     exec: vitest.fn(),
@@ -33,15 +37,25 @@ const childProcessMock = vitest.hoisted(() => ({
 vitest.mock('node:child_process', () => childProcessMock);
 vitest.mock('node:fs/promises');
 vitest.mock('tar');
-vitest.mock('./file-download.ts', () => ({
-    downloadFile: vitest.fn((_url, dest, _header) => dest),
-}));
+vitest.mock('./file-download.ts', async (importOriginal) => {
+    const { vol } = await import('memfs');
+    return {
+        ...await importOriginal<typeof import('./file-download.ts')>(),
+        downloadFile: vitest.fn((_url, dest, _header) => {
+            vol.fromJSON({ [dest]: '' });
+            return dest;
+        }),
+    };
+});
+
+const EMPTY_INTEGRITY = 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=';
 
 const assetMock = vitest.mockObject<Asset>({
     version: '1.0.0',
     cacheId: undefined,
     copyTo: vitest.fn().mockImplementation((dest) => dest),
     withCacheDir: vitest.fn().mockReturnThis(),
+    withDownloadOptions: vitest.fn().mockReturnThis(),
     dispose: vitest.fn().mockResolvedValue(undefined),
 });
 
@@ -96,11 +110,11 @@ describe('AbstractAsset', () => {
             return super.assureFile(path);
         }
 
-        public async downloadFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders = {}) {
-            return super.downloadFile(url, downloadFilePath, headers);
+        public async downloadFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders = {}, options: { integrity?: string } = {}) {
+            return super.downloadFile(url, downloadFilePath, headers, options);
         }
 
-        public async extractArchive(archiveFile: string, dest?: string, options: { strip?: number; force?: boolean } = {}) {
+        public async extractArchive(archiveFile: string, dest?: string, options: { strip?: number; force?: boolean; signal?: AbortSignal } = {}) {
             return super.extractArchive(archiveFile, dest, options);
         }
 
@@ -216,7 +230,7 @@ describe('AbstractAsset', () => {
 
             const result = await asset.downloadFile(url, filename, headers);
             expect(result).toBe(filename);
-            expect(downloadFile).toHaveBeenCalledWith(url.toString(), filename, headers);
+            expect(downloadFile).toHaveBeenCalledWith(url.toString(), filename, headers, {});
         });
 
         it('skips download for existing', async () => {
@@ -232,6 +246,55 @@ describe('AbstractAsset', () => {
             expect(downloadFile).not.toHaveBeenCalled();
         });
 
+        it('shares concurrent downloads to the same location', async () => {
+            const asset1 = new TestAsset();
+            const asset2 = new TestAsset();
+            const url = new URL(faker.internet.url());
+            const filename = faker.system.filePath();
+
+            const results = await Promise.all([
+                asset1.downloadFile(url, filename),
+                asset2.downloadFile(url, filename),
+            ]);
+
+            expect(results).toEqual([filename, filename]);
+            expect(downloadFile).toHaveBeenCalledOnce();
+        });
+
+        it('verifies integrity of downloaded file', async () => {
+            const asset = new TestAsset();
+            const url = new URL(faker.internet.url());
+            const filename = faker.system.filePath();
+
+            const result = await asset.downloadFile(url, filename, {}, { integrity: EMPTY_INTEGRITY });
+            expect(result).toBe(filename);
+            expect(asset.source).toEqual({ integrity: EMPTY_INTEGRITY });
+        });
+
+        it('fails and removes downloaded file with integrity mismatch', async () => {
+            const asset = new TestAsset();
+            const url = new URL(faker.internet.url());
+            const filename = faker.system.filePath();
+            const integrity = `sha512-${faker.string.alphanumeric(86)}==`;
+
+            const result = asset.downloadFile(url, filename, {}, { integrity });
+            await expect(result).rejects.toThrow('Integrity check failed');
+            await expect(result).rejects.toMatchObject({ code: 'ERR_INTEGRITY', expected: integrity });
+            expect(fs.rm).toHaveBeenCalledWith(filename, { force: true });
+        });
+
+        it('fails and evicts cached file with integrity mismatch', async () => {
+            const asset = new TestAsset();
+            const url = new URL(faker.internet.url());
+            const filename = faker.system.filePath();
+
+            vol.fromJSON({ [path.basename(filename)]: faker.lorem.paragraph() }, path.dirname(filename));
+
+            await expect(asset.downloadFile(url, filename, {}, { integrity: EMPTY_INTEGRITY })).rejects.toThrow('Integrity check failed');
+            expect(downloadFile).not.toHaveBeenCalled();
+            expect(fs.rm).toHaveBeenCalledWith(filename, { force: true });
+        });
+
     });
 
     describe('extractArchive', () => {
@@ -258,12 +321,34 @@ describe('AbstractAsset', () => {
             const archiveFile = path.join(faker.system.directoryPath(), faker.system.commonFileName('tar.xz'));
             const targetDir = faker.system.directoryPath();
 
-            vitest.mocked(tar.extract).mockRejectedValueOnce(new Error('unexpected end of archive'));
+            const cause = new Error('unexpected end of archive');
+            vitest.mocked(tar.extract).mockRejectedValueOnce(cause);
 
-            await expect(asset.extractArchive(archiveFile, targetDir)).rejects.toThrow('Failed to extract archive');
+            const result = asset.extractArchive(archiveFile, targetDir);
+            await expect(result).rejects.toThrow('Failed to extract archive');
+            await expect(result).rejects.toBeInstanceOf(ExtractionError);
+            await expect(result).rejects.toMatchObject({ code: 'ERR_EXTRACTION', archive: archiveFile, format: '.xz', cause });
             expect(childProcessMock.execFile).not.toHaveBeenCalled();
         });
 
+        it('keeps the error of unsupported archive formats', async () => {
+            const asset = new TestAsset();
+            const archiveFile = path.join(faker.system.directoryPath(), faker.system.commonFileName('rar'));
+
+            const result = asset.extractArchive(archiveFile, faker.system.directoryPath());
+            await expect(result).rejects.toThrow('Unsupported archive format: .rar');
+            await expect(result).rejects.toMatchObject({ code: 'ERR_EXTRACTION', archive: archiveFile, format: '.rar' });
+        });
+
+        it('does not extract with an aborted signal', async () => {
+            const asset = new TestAsset();
+            const archiveFile = path.join(faker.system.directoryPath(), faker.system.commonFileName('tar.xz'));
+            const targetDir = faker.system.directoryPath();
+
+            await expect(asset.extractArchive(archiveFile, targetDir, { signal: AbortSignal.abort(new Error('Aborted')) })).rejects.toThrow('Aborted');
+            expect(tar.extract).not.toHaveBeenCalled();
+        });
+
     });
 
 });
@@ -280,19 +365,69 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toBeUndefined();
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
 
             const expectedDest = path.join(targetDir, toolA.destination);
 
+            const staging = vitest.mocked(assetMock.copyTo).mock.calls[0][0] as string;
+
             expect(assetMock.withCacheDir).toHaveBeenCalledWith(cacheDir);
-            expect(assetMock.copyTo).toHaveBeenCalledWith(expectedDest);
+            expect(path.dirname(staging)).toBe(path.dirname(expectedDest));
             expect(assetMock.dispose).toHaveBeenCalledOnce();
-            expect(fs.rm).toHaveBeenCalledWith(expectedDest, { force: true, recursive: true });
-            expect(fs.mkdir).toHaveBeenCalledWith(expectedDest, { recursive: true });
+            expect(fs.mkdir).toHaveBeenCalledWith(staging, { recursive: true });
             expect(fs.readFile).toHaveBeenCalledWith(path.join(expectedDest, 'version.txt'), { encoding: 'utf8' });
             expect(fs.readFile).toHaveBeenCalledWith(path.join(expectedDest, 'target.txt'),  { encoding: 'utf8' });
-            expect(fs.writeFile).toHaveBeenCalledWith(path.join(expectedDest, 'version.txt'), '1.0.0',  { encoding: 'utf8' });
-            expect(fs.writeFile).toHaveBeenCalledWith(path.join(expectedDest, 'target.txt'), 'linux-arm64',  { encoding: 'utf8' });
+            expect(fs.writeFile).toHaveBeenCalledWith(path.join(staging, 'version.txt'), '1.0.0',  { encoding: 'utf8' });
+            expect(fs.writeFile).toHaveBeenCalledWith(path.join(staging, 'target.txt'), 'linux-arm64',  { encoding: 'utf8' });
+            expect(fs.rename).toHaveBeenCalledWith(staging, expectedDest);
+            expect(vol.readFileSync(path.join(expectedDest, 'version.txt'), 'utf8')).toBe('1.0.0');
+            expect(vol.readFileSync(path.join(expectedDest, 'target.txt'), 'utf8')).toBe('linux-arm64');
+        });
+
+        it('replaces a previous install only after the download succeeded', async () => {
+            const targetDir = faker.system.directoryPath();
+            const expectedDest = path.join(targetDir, toolA.destination);
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': 'linux-arm64', './old.bin': 'old' }, expectedDest);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+
+            expect(vol.readFileSync(path.join(expectedDest, 'version.txt'), 'utf8')).toBe('1.0.0');
+            expect(vol.existsSync(path.join(expectedDest, 'old.bin'))).toBe(false);
+            expect(vol.readdirSync(path.dirname(expectedDest))).toEqual([path.basename(expectedDest)]);
+        });
+
+        it('keeps the previous install if the download fails', async () => {
+            const targetDir = faker.system.directoryPath();
+            const expectedDest = path.join(targetDir, toolA.destination);
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': 'linux-arm64', './old.bin': 'old' }, expectedDest);
+            const copyTo = vitest.fn().mockRejectedValue(new Error('Download failed'));
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger({ error: vitest.fn(), warn: vitest.fn(), info: vitest.fn(), debug: vitest.fn() });
+
+            await expect(downloader.download('toolA', 'linux-arm64')).rejects.toThrow('Download failed');
+
+            expect(vol.readFileSync(path.join(expectedDest, 'version.txt'), 'utf8')).toBe('0.9.0');
+            expect(vol.readFileSync(path.join(expectedDest, 'old.bin'), 'utf8')).toBe('old');
+            expect(vol.readdirSync(path.dirname(expectedDest))).toEqual([path.basename(expectedDest)]);
+        });
+
+        it('skips tools not available for web without warning', async () => {
+            const logger = { error: vitest.fn(), warn: vitest.fn(), info: vitest.fn(), debug: vitest.fn() };
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(logger);
+
+            await expect(downloader.download('toolB', 'web')).resolves.toMatchObject({ status: 'skipped', version: undefined });
+
+            expect(logger.warn).not.toHaveBeenCalled();
+            expect(logger.info).toHaveBeenCalledWith('Tool B is not available for target web. Skipping.');
+            expect(fs.mkdir).not.toHaveBeenCalled();
         });
 
         it('skips downloads for already existing item', async () => {
@@ -310,7 +445,7 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toBeUndefined();
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'skipped' });
 
             expect(assetMock.withCacheDir).not.toHaveBeenCalled();
             expect(assetMock.copyTo).not.toHaveBeenCalled();
@@ -338,7 +473,7 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            await expect(downloader.download('toolA', 'linux-arm64', { force: true })).resolves.toBeUndefined();
+            await expect(downloader.download('toolA', 'linux-arm64', { force: true })).resolves.toMatchObject({ status: 'downloaded' });
 
             expect(assetMock.copyTo).toHaveBeenCalled();
         });
@@ -358,7 +493,7 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toBeUndefined();
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
 
             expect(assetMock.copyTo).toHaveBeenCalled();
         });
@@ -378,11 +513,221 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toBeUndefined();
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
 
             expect(assetMock.copyTo).toHaveBeenCalled();
         });
 
+        it('passes default download options to the asset', async () => {
+            const targetDir = faker.system.directoryPath();
+            const options = { retry: { retries: 5 }, idleTimeout: 1000 };
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withDownloadOptions(options);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+
+            expect(assetMock.withDownloadOptions).toHaveBeenCalledWith(expect.objectContaining(options));
+        });
+
+        it('reports progress to the given logger', async () => {
+            const targetDir = faker.system.directoryPath();
+            const logger = { error: vitest.fn(), warn: vitest.fn(), info: vitest.fn(), debug: vitest.fn(), progress: vitest.fn() };
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(logger);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+
+            const destination = path.join(targetDir, toolA.destination);
+            expect(assetMock.withDownloadOptions).toHaveBeenCalledWith(expect.objectContaining({ logger }));
+            expect(logger.progress).toHaveBeenCalledWith({ type: 'resolve', tool: 'toolA', target: 'linux-arm64', version: '1.0.0' });
+            expect(logger.progress).toHaveBeenCalledWith({ type: 'done', tool: 'toolA', target: 'linux-arm64', destination });
+        });
+
+        it('waits for another process installing the same tool', async () => {
+            const targetDir = faker.system.directoryPath();
+            const expectedDest = path.join(targetDir, toolA.destination);
+            vol.fromJSON({ [`${expectedDest}.lock`]: JSON.stringify({ pid: process.pid, hostname: os.hostname(), created: new Date().toISOString() }) });
+            const copyTo = vitest.fn(async (dest?: string) => dest!);
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+
+            const download = downloader.download('toolA', 'linux-arm64');
+            await new Promise(resolve => setTimeout(resolve, 50));
+            expect(copyTo).not.toHaveBeenCalled();
+
+            // The other process installed the tool and released the lock
+            vol.fromJSON({ './version.txt': '1.0.0', './target.txt': 'linux-arm64' }, expectedDest);
+            vol.unlinkSync(`${expectedDest}.lock`);
+
+            await expect(download).resolves.toMatchObject({ status: 'skipped' });
+            expect(copyTo).not.toHaveBeenCalled();
+        });
+
+        it('keeps the previous install if the download is aborted', async () => {
+            const targetDir = faker.system.directoryPath();
+            const expectedDest = path.join(targetDir, toolA.destination);
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': 'linux-arm64' }, expectedDest);
+            const controller = new AbortController();
+            const copyTo = vitest.fn((_dest?: string, signal?: AbortSignal) => new Promise<string>((_resolve, reject) => {
+                signal?.addEventListener('abort', () => reject(signal.reason));
+                controller.abort(new Error('Aborted'));
+            }));
+            const dispose = vitest.fn();
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo, dispose } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+
+            await expect(downloader.download('toolA', 'linux-arm64', { signal: controller.signal })).rejects.toThrow('Aborted');
+
+            expect(copyTo).toHaveBeenCalledWith(expect.any(String), controller.signal);
+            expect(dispose).toHaveBeenCalledOnce();
+            expect(vol.readFileSync(path.join(expectedDest, 'version.txt'), 'utf8')).toBe('0.9.0');
+            expect(vol.readdirSync(path.dirname(expectedDest))).toEqual([path.basename(expectedDest)]);
+        });
+
+        it('runs the install hooks on the staged tool', async () => {
+            const targetDir = faker.system.directoryPath();
+            const host = hostTarget()!;
+            const calls: string[] = [];
+            const postInstall = vitest.fn(async (dest: string) => { calls.push(`postInstall ${dest}`); });
+            const verify = vitest.fn(async (dest: string) => { calls.push(`verify ${dest}`); });
+            const toolC = new Downloadable('Tool C', 'toolC', async () => ({ ...assetMock, copyTo: vitest.fn(async dest => dest) } as Asset), { postInstall, verify });
+
+            const downloader = new Downloader({ toolC })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.download('toolC', host)).resolves.toMatchObject({ status: 'downloaded' });
+
+            const staging = postInstall.mock.calls[0][0];
+            expect(path.dirname(staging)).toBe(targetDir);
+            expect(calls).toEqual([`postInstall ${staging}`, `verify ${staging}`]);
+            expect(postInstall).toHaveBeenCalledWith(staging, host);
+            expect(verify).toHaveBeenCalledWith(staging, host);
+            expect(vol.existsSync(path.join(targetDir, 'toolC', 'version.txt'))).toBe(true);
+        });
+
+        it('skips verification for targets other than the host', async () => {
+            const targetDir = faker.system.directoryPath();
+            const target = VSCE_TARGETS.find(t => t !== hostTarget())!;
+            const postInstall = vitest.fn(async () => {});
+            const verify = vitest.fn(async () => {});
+            const toolC = new Downloadable('Tool C', 'toolC', async () => ({ ...assetMock, copyTo: vitest.fn(async dest => dest) } as Asset), { postInstall, verify });
+
+            const downloader = new Downloader({ toolC })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.download('toolC', target)).resolves.toMatchObject({ status: 'downloaded' });
+
+            expect(postInstall).toHaveBeenCalledOnce();
+            expect(verify).not.toHaveBeenCalled();
+        });
+
+        it('keeps the previous install if verification fails', async () => {
+            const targetDir = faker.system.directoryPath();
+            const host = hostTarget()!;
+            const expectedDest = path.join(targetDir, 'toolC');
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': host }, expectedDest);
+            const verify = vitest.fn().mockRejectedValue(new Error('Tool C is broken'));
+            const toolC = new Downloadable('Tool C', 'toolC', async () => ({ ...assetMock, copyTo: vitest.fn(async dest => dest) } as Asset), { verify });
+
+            const downloader = new Downloader({ toolC })
+                .withTargetDir(targetDir)
+                .withLogger({ error: vitest.fn(), warn: vitest.fn(), info: vitest.fn(), debug: vitest.fn() });
+
+            await expect(downloader.download('toolC', host)).rejects.toThrow('Tool C is broken');
+
+            expect(vol.readFileSync(path.join(expectedDest, 'version.txt'), 'utf8')).toBe('0.9.0');
+            expect(vol.readdirSync(targetDir)).toEqual(['toolC']);
+        });
+
+        it('downloads into target specific folder with target layout', async () => {
+            const targetDir = faker.system.directoryPath();
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLayout(TARGET_LAYOUT);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+
+            const expectedDest = path.join(targetDir, 'linux-arm64', toolA.destination);
+            const staging = vitest.mocked(assetMock.copyTo).mock.calls[0][0] as string;
+            expect(path.dirname(staging)).toBe(path.dirname(expectedDest));
+            expect(fs.rename).toHaveBeenCalledWith(staging, expectedDest);
+            expect(vol.readFileSync(path.join(expectedDest, 'target.txt'), 'utf8')).toBe('linux-arm64');
+        });
+
+        it('fetches assets sharing a cache entry one after the other', async () => {
+            const targetDir = faker.system.directoryPath();
+            const cacheDir = faker.system.directoryPath();
+            const cacheId = faker.string.uuid();
+            const active = { current: 0, max: 0 };
+            const copyTo = vitest.fn().mockImplementation(async (dest) => {
+                active.max = Math.max(active.max, ++active.current);
+                await new Promise(resolve => setImmediate(resolve));
+                active.current--;
+                return dest;
+            });
+
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, cacheId, copyTo } as Asset);
+            const toolC: Downloadable = {
+                name: 'Tool C',
+                destination: '/path/to/toolC',
+                getAsset: vitest.fn().mockResolvedValue({ ...assetMock, cacheId, copyTo }),
+            };
+
+            const downloader = new Downloader({ toolA, toolC })
+                .withTargetDir(targetDir)
+                .withCacheDir(cacheDir);
+
+            await Promise.all([
+                downloader.download('toolA', 'linux-arm64'),
+                downloader.download('toolC', 'linux-arm64'),
+            ]);
+
+            expect(copyTo).toHaveBeenCalledTimes(2);
+            expect(active.max).toBe(1);
+        });
+
+        it('records access to the cache entry', async () => {
+            const cacheDir = faker.system.directoryPath();
+            const cacheId = 'owner/repo/v1.0.0';
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, cacheId } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withCacheDir(cacheDir);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+
+            expect(await new DownloadCache(cacheDir).list()).toEqual([expect.objectContaining({ cacheId })]);
+        });
+
+        it('caches assets wrapped in an archive', async () => {
+            const cacheDir = faker.system.directoryPath();
+            const url = new URL(`${faker.internet.url({ appendSlash: false })}/tool.tar.gz`);
+            const archiveAsset = async () => new ArchiveFileAsset(new WebFileAsset(url, undefined, '1.0.0'), 1);
+            vitest.mocked(toolA.getAsset!).mockImplementationOnce(archiveAsset).mockImplementationOnce(archiveAsset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withCacheDir(cacheDir);
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded', cache: 'miss' });
+            await expect(downloader.download('toolA', 'linux-arm64', { force: true })).resolves.toMatchObject({ status: 'downloaded', cache: 'hit' });
+
+            expect(downloadFile).toHaveBeenCalledTimes(1);
+            expect(await new DownloadCache(cacheDir).list()).toEqual([expect.objectContaining({ cacheId: new WebFileAsset(url).cacheId })]);
+        });
+
         it('disposes asset on error', async () => {
             const targetDir = faker.system.directoryPath();
             const cacheDir = faker.system.directoryPath();
@@ -399,8 +744,342 @@ describe('Downloader', () => {
         });
     });
 
+    describe('hostTarget', () => {
+
+        it('maps platform, architecture and libc to the VSCE target', () => {
+            expect(hostTarget('win32', 'x64', false)).toBe('win32-x64');
+            expect(hostTarget('darwin', 'arm64', false)).toBe('darwin-arm64');
+            expect(hostTarget('linux', 'x64', false)).toBe('linux-x64');
+            expect(hostTarget('linux', 'arm', false)).toBe('linux-armhf');
+            expect(hostTarget('linux', 'x64', true)).toBe('alpine-x64');
+            expect(hostTarget('linux', 'arm64', true)).toBe('alpine-arm64');
+        });
+
+        it('returns undefined for systems not supported by VS Code', () => {
+            expect(hostTarget('linux', 'arm', true)).toBeUndefined();
+            expect(hostTarget('freebsd', 'x64', false)).toBeUndefined();
+            expect(hostTarget('win32', 'ia32', false)).toBeUndefined();
+        });
+
+        it('detects the system running the downloader', () => {
+            expect(VSCE_TARGETS).toContain(hostTarget());
+        });
+    });
+
+    describe('packageManager', () => {
+        const stdout = (outputs: Record<string, string>) => childProcessMock.exec.mockImplementation((command, _options, callback) =>
+            callback?.(null, { stdout: `${outputs[command as string]}\n`, stderr: '' } as never, ''));
+
+        it('detects the package manager from the packageManager field, lockfiles and engines', async () => {
+            const projectDir = faker.system.directoryPath();
+            const downloader = () => new Downloader({ toolA, toolB }).withProjectDir(projectDir);
+
+            await expect(downloader().packageManager()).resolves.toBeUndefined();
+
+            vol.fromJSON({ './package.json': JSON.stringify({ engines: { yarn: '>=1' } }) }, projectDir);
+            await expect(downloader().packageManager()).resolves.toBe('yarn');
+
+            vol.fromJSON({ './bun.lockb': '' }, projectDir);
+            await expect(downloader().packageManager()).resolves.toBe('bun');
+
+            vol.fromJSON({ './package.json': JSON.stringify({ packageManager: 'pnpm@9.1.0+sha512.abc', engines: { yarn: '>=1' } }) }, projectDir);
+            await expect(downloader().packageManager()).resolves.toBe('pnpm');
+        });
+
+        it('derives the cache directory of the package manager', async () => {
+            const projectDir = faker.system.directoryPath();
+            const cacheDir = faker.system.directoryPath();
+            const downloader = () => new Downloader({ toolA, toolB }).withProjectDir(projectDir).withLogger(new ConsoleLogger('silent'));
+
+            await expect(downloader().defaultCacheDir()).resolves.toBeUndefined();
+
+            vol.fromJSON({ './package-lock.json': '{}' }, projectDir);
+            stdout({ 'npm config get cache': cacheDir });
+            await expect(downloader().defaultCacheDir()).resolves.toBe(path.join(cacheDir, '_cacache'));
+            expect(childProcessMock.exec).toHaveBeenCalledWith('npm config get cache', { cwd: projectDir }, expect.any(Function));
+
+            vol.fromJSON({ './package.json': JSON.stringify({ packageManager: 'pnpm@9.1.0' }) }, projectDir);
+            stdout({ 'pnpm store path': cacheDir });
+            await expect(downloader().defaultCacheDir()).resolves.toBe(cacheDir);
+
+            vol.fromJSON({ './package.json': JSON.stringify({ packageManager: 'bun@1.1.0' }) }, projectDir);
+            stdout({ 'bun pm cache': cacheDir });
+            await expect(downloader().defaultCacheDir()).resolves.toBe(cacheDir);
+        });
+
+        it('disables caching if the package manager is not installed', async () => {
+            const projectDir = faker.system.directoryPath();
+            vol.fromJSON({ './pnpm-lock.yaml': '' }, projectDir);
+            const logger = new ConsoleLogger('silent');
+            const warn = vitest.spyOn(logger, 'warn');
+            const error = Object.assign(new Error('Command failed: pnpm store path'), { code: 127 });
+            childProcessMock.exec.mockImplementation((_command, _options, callback) => callback?.(error, '', ''));
+
+            await expect(new Downloader({ toolA, toolB }).withProjectDir(projectDir).withLogger(logger).defaultCacheDir()).resolves.toBeUndefined();
+            expect(warn).toHaveBeenCalledWith('Failed to query the cache directory of pnpm, disable caching:', error);
+        });
+
+        it('distinguishes Yarn Berry from Yarn classic', async () => {
+            const projectDir = faker.system.directoryPath();
+            const cacheDir = faker.system.directoryPath();
+            const globalFolder = faker.system.directoryPath();
+            vol.fromJSON({ './yarn.lock': '' }, projectDir);
+            const downloader = new Downloader({ toolA, toolB }).withProjectDir(projectDir);
+
+            stdout({ 'yarn --version': '1.22.22', 'yarn cache dir': cacheDir });
+            await expect(downloader.defaultCacheDir()).resolves.toBe(cacheDir);
+
+            stdout({ 'yarn --version': '4.5.0', 'yarn config get globalFolder': globalFolder });
+            await expect(downloader.defaultCacheDir()).resolves.toBe(path.join(globalFolder, 'cache'));
+        });
+    });
+
+    describe('toolVersions', () => {
+
+        it('reads versions from the downloader section of package.json', async () => {
+            const projectDir = faker.system.directoryPath();
+            vol.fromJSON({ './package.json': JSON.stringify({ downloader: { toolA: '1.2.3', toolB: 'file:../toolB' } }) }, projectDir);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withProjectDir(projectDir)
+                .withVersions({ toolA: '2.0.0' });
+
+            await expect(downloader.toolVersions()).resolves.toEqual({
+                toolA: '2.0.0',
+                toolB: `file:${path.resolve(projectDir, '../toolB')}`,
+            });
+        });
+
+        it('returns no versions without package.json', async () => {
+            const downloader = new Downloader({ toolA, toolB })
+                .withProjectDir(faker.system.directoryPath());
+
+            await expect(downloader.toolVersions()).resolves.toEqual({});
+        });
+
+        it('rejects unknown tools and invalid versions', async () => {
+            const projectDir = faker.system.directoryPath();
+            vol.fromJSON({ './package.json': JSON.stringify({ downloader: { toolC: '1.0.0' } }) }, projectDir);
+            await expect(new Downloader({ toolA, toolB }).withProjectDir(projectDir).toolVersions()).rejects.toThrow('Unknown tool \'toolC\'');
+
+            vol.fromJSON({ './package.json': JSON.stringify({ downloader: { toolA: 1 } }) }, projectDir);
+            await expect(new Downloader({ toolA, toolB }).withProjectDir(projectDir).toolVersions()).rejects.toThrow('Version of \'toolA\'');
+        });
+
+        it('passes the configured version to getAsset', async () => {
+            const projectDir = faker.system.directoryPath();
+            vol.fromJSON({ './package.json': JSON.stringify({ downloader: { toolA: '1.2.3' } }) }, projectDir);
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo: vitest.fn(async dest => dest) } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withProjectDir(projectDir)
+                .withTargetDir(faker.system.directoryPath());
+
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'downloaded' });
+            await expect(downloader.download('toolB', 'linux-arm64')).resolves.toMatchObject({ status: 'skipped' });
+
+            expect(toolA.getAsset).toHaveBeenCalledWith('linux-arm64', '1.2.3');
+            expect(toolB.getAsset).toHaveBeenCalledWith('linux-arm64', undefined);
+        });
+    });
+
+    describe('plan', () => {
+
+        it('plans download of missing item', async () => {
+            const targetDir = faker.system.directoryPath();
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({
+                tool: 'toolA',
+                target: 'linux-arm64',
+                destination: path.join(targetDir, toolA.destination),
+                currentVersion: undefined,
+                resolvedVersion: '1.0.0',
+                action: 'download',
+            });
+            expect(assetMock.copyTo).not.toHaveBeenCalled();
+            expect(assetMock.dispose).toHaveBeenCalledOnce();
+            expect(fs.mkdir).not.toHaveBeenCalled();
+            expect(fs.writeFile).not.toHaveBeenCalled();
+        });
+
+        it('plans to skip already existing item', async () => {
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({ './version.txt': '1.0.0', './target.txt': 'linux-arm64' }, path.join(targetDir, toolA.destination));
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({ currentVersion: '1.0.0', action: 'skip' });
+            await expect(downloader.plan('toolA', 'linux-arm64', { force: true })).resolves.toMatchObject({ action: 'update' });
+        });
+
+        it('plans update of item with different version', async () => {
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': 'linux-arm64' }, path.join(targetDir, toolA.destination));
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({
+                currentVersion: '0.9.0',
+                resolvedVersion: '1.0.0',
+                action: 'update',
+            });
+        });
+
+        it('plans to skip item without version installed from the same source', async () => {
+            const targetDir = faker.system.directoryPath();
+            const url = faker.internet.url();
+            const receipt = (source: object) => JSON.stringify({ receiptVersion: 1, tool: 'toolA', target: 'linux-arm64', source, installed: '', files: {} });
+            vol.fromJSON({ './version.txt': '', './target.txt': 'linux-arm64', './receipt.json': receipt({ url, integrity: 'sha256-abc' }) }, path.join(targetDir, toolA.destination));
+            vitest.mocked(toolA.getAsset!).mockResolvedValue({ ...assetMock, version: undefined, source: { url } } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            try {
+                await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({ currentVersion: undefined, resolvedVersion: undefined, action: 'skip' });
+                await expect(downloader.plan('toolA', 'linux-x64')).resolves.toMatchObject({ action: 'update' });
+
+                vol.writeFileSync(path.join(targetDir, toolA.destination, 'receipt.json'), receipt({ url: faker.internet.url() }));
+                await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({ action: 'update' });
+
+                vol.unlinkSync(path.join(targetDir, toolA.destination, 'receipt.json'));
+                await expect(downloader.plan('toolA', 'linux-arm64')).resolves.toMatchObject({ action: 'skip' });
+            } finally {
+                vitest.mocked(toolA.getAsset!).mockResolvedValue(assetMock);
+            }
+        });
+
+        it('plans to skip item without asset', async () => {
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath());
+
+            await expect(downloader.plan('toolB', 'linux-arm64')).resolves.toMatchObject({ resolvedVersion: undefined, available: false, action: 'skip' });
+        });
+    });
+
+    describe('lockfile', () => {
+
+        it('records resolved version and source', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+            const source = { url: faker.internet.url(), integrity: 'sha256-abc' };
+
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source, copyTo: vitest.fn().mockImplementation(dest => dest) } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+
+            await downloader.download('toolA', 'linux-arm64');
+            await downloader.saveLockfile();
+
+            const content = JSON.parse(vol.readFileSync(lockfile, 'utf8') as string);
+            expect(content.tools.toolA['linux-arm64']).toEqual({ version: '1.0.0', source });
+        });
+
+        it('refuses frozen download of tools missing in lockfile', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+
+            const result = downloader.download('toolA', 'linux-arm64', { frozenLockfile: true });
+            await expect(result).rejects.toThrow('No lockfile entry');
+            await expect(result).rejects.toMatchObject({ code: 'ERR_FROZEN_LOCKFILE', tool: 'toolA', target: 'linux-arm64' });
+            expect(assetMock.copyTo).not.toHaveBeenCalled();
+        });
+
+        it('refuses frozen download of tools resolving to a different version', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+            vol.fromJSON({ [lockfile]: JSON.stringify({ lockfileVersion: 1, tools: { toolA: { 'linux-arm64': { version: '0.9.0', source: {} } } } }) });
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+
+            const result = downloader.download('toolA', 'linux-arm64', { frozenLockfile: true });
+            await expect(result).rejects.toThrow('differs from the lockfile');
+            await expect(result).rejects.toBeInstanceOf(FrozenLockfileError);
+            expect(assetMock.copyTo).not.toHaveBeenCalled();
+        });
+
+        it('fails frozen download on integrity mismatch', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+            const url = faker.internet.url();
+            vol.fromJSON({ [lockfile]: JSON.stringify({ lockfileVersion: 1, tools: { toolA: { 'linux-arm64': { version: '1.0.0', source: { url, integrity: 'sha256-abc' } } } } }) });
+
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source: { url, integrity: 'sha256-def' }, copyTo: vitest.fn().mockImplementation(dest => dest) } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+
+            const expectedDest = path.join(targetDir, toolA.destination);
+
+            const result = downloader.download('toolA', 'linux-arm64', { frozenLockfile: true });
+            await expect(result).rejects.toThrow('Integrity mismatch');
+            await expect(result).rejects.toMatchObject({ code: 'ERR_INTEGRITY', actual: 'sha256-def' });
+            expect(fs.writeFile).not.toHaveBeenCalledWith(path.join(expectedDest, 'version.txt'), expect.anything(), expect.anything());
+        });
+
+
+        it('records the integrity of skipped tools from the install receipt for frozen downloads', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+            const expectedDest = path.join(targetDir, toolA.destination);
+            const url = faker.internet.url();
+            const receipt = { receiptVersion: 1, tool: 'toolA', version: '1.0.0', target: 'linux-arm64', source: { url, integrity: 'sha256-abc' }, installed: '', files: {} };
+            vol.fromJSON({ './version.txt': '1.0.0', './target.txt': 'linux-arm64', './receipt.json': JSON.stringify(receipt) }, expectedDest);
+
+            // Nothing is fetched for installed tools, so their source misses the integrity
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source: { url } } as Asset);
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+            await expect(downloader.download('toolA', 'linux-arm64')).resolves.toMatchObject({ status: 'skipped' });
+            await downloader.saveLockfile();
+
+            const content = JSON.parse(vol.readFileSync(lockfile, 'utf8') as string);
+            expect(content.tools.toolA['linux-arm64']).toEqual({ version: '1.0.0', source: { url, integrity: 'sha256-abc' } });
+
+            // A clean checkout fetches the tool again
+            vol.rmSync(expectedDest, { recursive: true });
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source: { url, integrity: 'sha256-abc' }, copyTo: vitest.fn().mockImplementation(dest => dest) } as Asset);
+            const frozen = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+            await expect(frozen.download('toolA', 'linux-arm64', { frozenLockfile: true })).resolves.toMatchObject({ status: 'downloaded' });
+        });
+
+        it('verifies frozen downloads of lockfile entries without integrity by version and source', async () => {
+            const targetDir = faker.system.directoryPath();
+            const lockfile = path.join(faker.system.directoryPath(), 'tools.lock.json');
+            const url = faker.internet.url();
+            vol.fromJSON({ [lockfile]: JSON.stringify({ lockfileVersion: 1, tools: { toolA: { 'linux-arm64': { version: '1.0.0', source: { url } } } } }) });
+
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source: { url, integrity: 'sha256-abc' }, copyTo: vitest.fn().mockImplementation(dest => dest) } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLockfile(lockfile);
+
+            await expect(downloader.download('toolA', 'linux-arm64', { frozenLockfile: true })).resolves.toMatchObject({ status: 'downloaded' });
+        });
+    });
+
     describe('run', () => {
-        const defaultTarget = `${os.platform()}-${os.arch()}`;
+        const defaultTarget = hostTarget()!;
+        const downloaded = async (tool: string, target: VsceTarget): Promise<DownloadResult> =>
+            ({ tool, target, version: '1.0.0', status: 'downloaded', destination: tool, duration: 0 });
 
         it('issues downloads for all tools', async () => {
             const targetDir = faker.system.directoryPath();
@@ -411,14 +1090,121 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            downloader.download = vitest.fn().mockResolvedValue(undefined);
+            downloader.download = vitest.fn(downloaded);
 
-            await expect(downloader.run([])).resolves.toBeUndefined();
+            await expect(downloader.run([])).resolves.toHaveLength(2);
 
             expect(downloader.download).toHaveBeenCalledWith('toolA', defaultTarget, expect.objectContaining({ force: false }));
             expect(downloader.download).toHaveBeenCalledWith('toolB', defaultTarget, expect.objectContaining({ force: false }));
         });
 
+        it('aborts all downloads on SIGINT', async () => {
+            const targetDir = faker.system.directoryPath();
+            const once = vitest.spyOn(process, 'once');
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+            const signals: AbortSignal[] = [];
+            downloader.download = vitest.fn().mockImplementation((_tool, _target, options: { signal: AbortSignal }) => {
+                signals.push(options.signal);
+                return new Promise((_resolve, reject) => options.signal.addEventListener('abort', () => reject(options.signal.reason)));
+            });
+
+            try {
+                const run = downloader.run([]);
+                await vitest.waitFor(() => expect(signals).toHaveLength(2));
+                const [, abort] = once.mock.calls.find(([event]) => event === 'SIGINT')!;
+                (abort as (signal: string) => void)('SIGINT');
+
+                await expect(run).rejects.toThrow('Downloads aborted by SIGINT.');
+                expect(signals.every(signal => signal.aborted)).toBe(true);
+                expect(process.listeners('SIGINT')).not.toContain(abort);
+            } finally {
+                once.mockRestore();
+            }
+        });
+
+        it('completes all downloads and reports failures', async () => {
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(new ConsoleLogger('silent'));
+            const error = new Error('Download failed');
+            downloader.download = vitest.fn().mockImplementation(async (tool, target) => {
+                if (tool === 'toolA') {
+                    throw error;
+                }
+                return downloaded(tool, target);
+            });
+            const saveLockfile = vitest.spyOn(downloader, 'saveLockfile');
+
+            try {
+                const results = await downloader.run([]);
+
+                expect(results).toEqual([
+                    { tool: 'toolA', target: defaultTarget, version: undefined, status: 'failed', destination: expect.stringMatching(/toolA$/), duration: expect.any(Number), error },
+                    { tool: 'toolB', target: defaultTarget, version: '1.0.0', status: 'downloaded', destination: 'toolB', duration: 0 },
+                ]);
+                expect(process.exitCode).toBe(1);
+                expect(saveLockfile).not.toHaveBeenCalled();
+            } finally {
+                process.exitCode = undefined;
+            }
+        });
+
+        it('logs the reason of failures and keeps the resolved version and source', async () => {
+            const logger = new ConsoleLogger('silent');
+            const error = vitest.spyOn(logger, 'error');
+            const url = faker.internet.url();
+            const lookupError = new Error('Unknown asset type');
+            const downloadError = new Error('Download failed');
+            const toolC = new Downloadable('Tool C', 'toolC', vitest.fn().mockRejectedValue(lookupError));
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, source: { url }, copyTo: vitest.fn().mockRejectedValue(downloadError) } as Asset);
+            const downloader = new Downloader({ toolA, toolC })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(logger);
+
+            try {
+                const results = await downloader.run(['--target', 'linux-x64']);
+
+                expect(results).toEqual([
+                    expect.objectContaining({ tool: 'toolA', status: 'failed', version: '1.0.0', source: { url }, error: downloadError }),
+                    expect.objectContaining({ tool: 'toolC', status: 'failed', version: undefined, error: lookupError }),
+                ]);
+                expect(error).toHaveBeenCalledWith('Failed to download Tool A:', downloadError);
+                expect(error).toHaveBeenCalledWith('Failed to download Tool C:', lookupError);
+                expect(process.exitCode).toBe(1);
+            } finally {
+                process.exitCode = undefined;
+            }
+        });
+
+        it('reports failures of optional tools as warning', async () => {
+            const toolC = new Downloadable('Tool C', 'toolC', vitest.fn().mockResolvedValue(assetMock), { optional: true });
+            const logger = new ConsoleLogger('silent');
+            const warn = vitest.spyOn(logger, 'warn');
+            const downloader = new Downloader({ toolA, toolC })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(logger);
+            downloader.download = vitest.fn().mockImplementation(async (tool, target) => {
+                if (tool === 'toolC') {
+                    throw new Error('Download failed');
+                }
+                return downloaded(tool, target);
+            });
+            const saveLockfile = vitest.spyOn(downloader, 'saveLockfile');
+
+            try {
+                const results = await downloader.run([]);
+
+                expect(results.map(r => r.status)).toEqual(['downloaded', 'failed']);
+                expect(process.exitCode).toBeFalsy();
+                expect(warn).toHaveBeenCalledWith('1 optional tool(s) failed to download.');
+                expect(saveLockfile).toHaveBeenCalled();
+            } finally {
+                process.exitCode = undefined;
+            }
+        });
+
         it('issues download for selected tool', async () => {
             const targetDir = faker.system.directoryPath();
             const cacheDir = faker.system.directoryPath();
@@ -427,14 +1213,383 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            downloader.download = vitest.fn().mockResolvedValue(undefined);
+            downloader.download = vitest.fn(downloaded);
 
-            await expect(downloader.run(['toolA'])).resolves.toBeUndefined();
+            await expect(downloader.run(['toolA'])).resolves.toHaveLength(1);
 
             expect(downloader.download).toHaveBeenCalledWith('toolA', defaultTarget, expect.objectContaining({ force: false }));
             expect(downloader.download).not.toHaveBeenCalledWith('toolB', expect.anything(), expect.anything());
         });
 
+        it('issues downloads for multiple targets', async () => {
+            const targetDir = faker.system.directoryPath();
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            downloader.download = vitest.fn(downloaded);
+
+            await expect(downloader.run(['toolA', '--target', 'linux-x64', 'win32-arm64'])).resolves.toHaveLength(2);
+
+            expect(downloader.download).toHaveBeenCalledTimes(2);
+            expect(downloader.download).toHaveBeenCalledWith('toolA', 'linux-x64', expect.anything());
+            expect(downloader.download).toHaveBeenCalledWith('toolA', 'win32-arm64', expect.anything());
+        });
+
+        it('issues downloads for all targets', async () => {
+            const targetDir = faker.system.directoryPath();
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            downloader.download = vitest.fn(downloaded);
+
+            await expect(downloader.run(['--target', 'all'])).resolves.toHaveLength(2 * VSCE_TARGETS.length);
+
+            expect(downloader.download).toHaveBeenCalledTimes(2 * VSCE_TARGETS.length);
+            for (const target of VSCE_TARGETS) {
+                expect(downloader.download).toHaveBeenCalledWith('toolA', target, expect.anything());
+                expect(downloader.download).toHaveBeenCalledWith('toolB', target, expect.anything());
+            }
+        });
+
+        it('limits concurrent downloads to given jobs', async () => {
+            const targetDir = faker.system.directoryPath();
+            const active = { current: 0, max: 0 };
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            downloader.download = vitest.fn().mockImplementation(async (tool, target) => {
+                active.max = Math.max(active.max, ++active.current);
+                await new Promise(resolve => setImmediate(resolve));
+                active.current--;
+                return downloaded(tool, target);
+            });
+
+            await expect(downloader.run(['--jobs', '1', '--target', 'all'])).resolves.toHaveLength(2 * VSCE_TARGETS.length);
+
+            expect(downloader.download).toHaveBeenCalledTimes(2 * VSCE_TARGETS.length);
+            expect(active.max).toBe(1);
+        });
+
+        it('adjusts the log level with quiet and verbose', async () => {
+            const logger = new ConsoleLogger();
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(logger);
+
+            downloader.download = vitest.fn(downloaded);
+
+            await expect(downloader.run(['--quiet'])).resolves.toHaveLength(2);
+            expect(logger.level).toBe('error');
+
+            await expect(downloader.run(['--verbose'])).resolves.toHaveLength(2);
+            expect(logger.level).toBe('debug');
+        });
+
+        it('prints a JSON report of all downloads', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            const cacheDir = faker.system.directoryPath();
+            const url = faker.internet.url();
+            const asset = { ...assetMock, cacheId: 'toolA-1.0.0', source: { url }, copyTo: vitest.fn(async (dest?: string) => dest!) } as Asset;
+            vitest.mocked(toolA.getAsset!).mockResolvedValue(asset);
+            const logger = new ConsoleLogger();
+            const downloader = new Downloader({ toolA, toolB })
+                .withCacheDir(cacheDir)
+                .withLogger(logger);
+
+            try {
+                await expect(downloader.run(['--json', '--target', 'linux-x64', '--dest', targetDir])).resolves.toHaveLength(2);
+                await expect(downloader.download('toolA', 'linux-x64', { force: true })).resolves.toMatchObject({ cache: 'hit' });
+
+                expect(logger.level).toBe('warn');
+                expect(write).toHaveBeenCalledTimes(1);
+                expect(JSON.parse(write.mock.calls[0][0] as string)).toEqual({
+                    ok: true,
+                    host: defaultTarget,
+                    targets: ['linux-x64'],
+                    tools: [
+                        {
+                            tool: 'toolA', name: 'Tool A', optional: false, target: 'linux-x64', version: '1.0.0', status: 'downloaded',
+                            destination: path.join(targetDir, toolA.destination), source: { url }, cache: 'miss', duration: expect.any(Number),
+                        },
+                        {
+                            tool: 'toolB', name: 'Tool B', optional: false, target: 'linux-x64', status: 'skipped',
+                            destination: path.join(targetDir, toolB.destination), duration: expect.any(Number),
+                        },
+                    ],
+                });
+            } finally {
+                write.mockRestore();
+                vitest.mocked(toolA.getAsset!).mockResolvedValue(assetMock);
+            }
+        });
+
+        it('writes the JSON report with failures to the output file', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const output = path.join(faker.system.directoryPath(), 'report.json');
+            const url = faker.internet.url();
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath())
+                .withLogger(new ConsoleLogger('silent'));
+            downloader.download = vitest.fn().mockImplementation(async (tool, target) => {
+                if (tool === 'toolA') {
+                    throw new HttpError(url, 404);
+                }
+                return downloaded(tool, target);
+            });
+
+            try {
+                await expect(downloader.run(['--output', output])).resolves.toHaveLength(2);
+
+                expect(write).not.toHaveBeenCalled();
+                const report = JSON.parse(vol.readFileSync(output, 'utf8') as string);
+                expect(report.ok).toBe(false);
+                expect(report.tools[0]).toMatchObject({ tool: 'toolA', status: 'failed', error: { name: 'HttpError', code: 'ERR_HTTP' } });
+                expect(report.tools[0].error.message).toContain('Status Code: 404');
+                expect(report.tools[1]).toMatchObject({ tool: 'toolB', status: 'downloaded' });
+            } finally {
+                write.mockRestore();
+                process.exitCode = undefined;
+            }
+        });
+
+        it('prints plan without downloading', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(faker.system.directoryPath());
+
+            downloader.download = vitest.fn(downloaded);
+
+            try {
+                await expect(downloader.run(['plan', 'toolA', '--target', 'linux-x64'])).resolves.toEqual([]);
+
+                expect(downloader.download).not.toHaveBeenCalled();
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^Tool +Target +Current +Resolved +Source +Action\ntoolA +linux-x64 +- +1\.0\.0 +- +download\n$/));
+            } finally {
+                write.mockRestore();
+            }
+        });
+
+        it('checks installed tools', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({ './version.txt': '1.0.0', './target.txt': 'linux-x64' }, path.join(targetDir, toolA.destination));
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            try {
+                await expect(downloader.run(['check', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+
+                expect(process.exitCode).toBeFalsy();
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^toolA +linux-x64 +1\.0\.0 +1\.0\.0 +ok$/m));
+                expect(fs.writeFile).not.toHaveBeenCalled();
+            } finally {
+                write.mockRestore();
+            }
+        });
+
+        it('checks installed tools without version', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({ './version.txt': '', './target.txt': 'linux-x64' }, path.join(targetDir, toolA.destination));
+            vitest.mocked(toolA.getAsset!).mockResolvedValue({ ...assetMock, version: undefined } as Asset);
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir);
+
+            try {
+                await expect(downloader.run(['check', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+                await expect(downloader.run(['plan', 'toolA', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+
+                expect(process.exitCode).toBeFalsy();
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^toolA +linux-x64 +- +- +ok$/m));
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^toolA +linux-x64 +- +- +- +skip$/m));
+            } finally {
+                write.mockRestore();
+                vitest.mocked(toolA.getAsset!).mockResolvedValue(assetMock);
+            }
+        });
+
+        it('fails check for missing or stale tools', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({ './version.txt': '0.9.0', './target.txt': 'linux-x64' }, path.join(targetDir, 'linux-x64', toolA.destination));
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+
+            try {
+                await expect(downloader.run(['check', '--json', '--target', 'linux-x64', 'win32-x64', '--dest', targetDir])).resolves.toEqual([]);
+
+                expect(process.exitCode).toBe(1);
+                const result = JSON.parse(write.mock.calls[0][0] as string);
+                expect(result.ok).toBe(false);
+                expect(result.tools).toEqual(expect.arrayContaining([
+                    expect.objectContaining({ tool: 'toolA', target: 'linux-x64', currentVersion: '0.9.0', resolvedVersion: '1.0.0', status: 'stale' }),
+                    expect.objectContaining({ tool: 'toolA', target: 'win32-x64', status: 'missing' }),
+                    expect.objectContaining({ tool: 'toolB', target: 'linux-x64', status: 'ok' }),
+                ]));
+            } finally {
+                write.mockRestore();
+                process.exitCode = undefined;
+            }
+        });
+
+        it('verifies installed tools against their receipt', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            const copyTo = vitest.fn(async (dest?: string) => {
+                vol.fromJSON({ './bin/tool': 'hello', './README.md': 'readme' }, dest);
+                return dest!;
+            });
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo } as Asset);
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+            await downloader.download('toolA', 'linux-x64');
+
+            const expectedDest = path.join(targetDir, toolA.destination);
+            const receipt = JSON.parse(vol.readFileSync(path.join(expectedDest, 'receipt.json'), 'utf8') as string);
+            expect(receipt).toEqual(expect.objectContaining({ tool: 'toolA', version: '1.0.0', target: 'linux-x64' }));
+            expect(Object.keys(receipt.files)).toEqual(['README.md', 'bin/tool']);
+
+            try {
+                await expect(downloader.run(['verify', 'toolA', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+                expect(process.exitCode).toBeFalsy();
+                expect(write).toHaveBeenLastCalledWith(expect.stringMatching(/^toolA +linux-x64 +0 +0 +0 +ok$/m));
+
+                vol.writeFileSync(path.join(expectedDest, 'bin/tool'), 'hellO');
+                vol.unlinkSync(path.join(expectedDest, 'README.md'));
+                vol.writeFileSync(path.join(expectedDest, 'extra.txt'), 'extra');
+
+                await expect(downloader.run(['verify', 'toolA', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+                expect(process.exitCode).toBe(1);
+                expect(write).toHaveBeenLastCalledWith(expect.stringMatching(/^toolA +linux-x64 +1 +1 +1 +modified$/m));
+            } finally {
+                write.mockRestore();
+                process.exitCode = undefined;
+            }
+        });
+
+        it('repairs modified tools', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            vol.fromJSON({
+                './version.txt': '1.0.0',
+                './target.txt': 'linux-x64',
+                './receipt.json': JSON.stringify({ receiptVersion: 1, tool: 'toolA', target: 'linux-x64', source: {}, installed: '', files: { tool: { size: 5, integrity: 'sha256-abc' } } }),
+            }, path.join(targetDir, toolA.destination));
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+            vitest.spyOn(downloader, 'download').mockResolvedValue({ tool: 'toolA', target: 'linux-x64', version: '1.0.0', status: 'downloaded', destination: targetDir, duration: 0 });
+
+            try {
+                await expect(downloader.run(['verify', '--repair', '--target', 'linux-x64', '--dest', targetDir])).resolves.toEqual([]);
+
+                expect(process.exitCode).toBeFalsy();
+                expect(downloader.download).toHaveBeenCalledExactlyOnceWith('toolA', 'linux-x64', { force: true });
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^toolA +linux-x64 +0 +1 +0 +repaired\ntoolB +linux-x64 +0 +0 +0 +not-installed\n$/m));
+            } finally {
+                write.mockRestore();
+                process.exitCode = undefined;
+            }
+        });
+
+        it('continues verifying if a repair fails', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const targetDir = faker.system.directoryPath();
+            const receipt = (tool: string) => JSON.stringify({ receiptVersion: 1, tool, target: 'linux-x64', source: {}, installed: '', files: { tool: { size: 5, integrity: 'sha256-abc' } } });
+            vol.fromJSON({ './receipt.json': receipt('toolA') }, path.join(targetDir, toolA.destination));
+            vol.fromJSON({ './receipt.json': receipt('toolB') }, path.join(targetDir, toolB.destination));
+            const downloader = new Downloader({ toolA, toolB })
+                .withTargetDir(targetDir)
+                .withLogger(new ConsoleLogger('silent'));
+            vitest.spyOn(downloader, 'download')
+                .mockRejectedValueOnce(new Error('Download failed'))
+                .mockResolvedValueOnce({ tool: 'toolB', target: 'linux-x64', version: '1.0.0', status: 'downloaded', destination: targetDir, duration: 0 });
+
+            try {
+                await expect(downloader.run(['verify', '--repair', '--target', 'linux-x64', '--dest', targetDir, '--jobs', '1'])).resolves.toEqual([]);
+
+                expect(process.exitCode).toBe(1);
+                expect(downloader.download).toHaveBeenCalledTimes(2);
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^toolA +linux-x64 +0 +1 +0 +repair-failed\ntoolB +linux-x64 +0 +1 +0 +repaired\n$/m));
+            } finally {
+                write.mockRestore();
+                process.exitCode = undefined;
+            }
+        });
+
+        it('lists cache entries', async () => {
+            const write = vitest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+            const cacheDir = faker.system.directoryPath();
+            vol.fromJSON({ './file.bin': '0123456789' }, path.join(cacheDir, 'owner/repo/v1.0.0'));
+            await new DownloadCache(cacheDir).touch('owner/repo/v1.0.0');
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withCacheDir(cacheDir);
+
+            try {
+                await expect(downloader.run(['cache', 'list'])).resolves.toEqual([]);
+
+                expect(write).toHaveBeenCalledWith(expect.stringMatching(/^owner\/repo\/v1\.0\.0 +10 B +\d{4}-/m));
+                expect(write).toHaveBeenCalledWith(`1 entries, 10 B in ${cacheDir}\n`);
+            } finally {
+                write.mockRestore();
+            }
+        });
+
+        it('manages the cache on hosts without a target', async () => {
+            const arch = vitest.spyOn(os, 'arch').mockReturnValue('mips');
+            const cacheDir = faker.system.directoryPath();
+            await new DownloadCache(cacheDir).touch('owner/repo/v1.0.0');
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withCacheDir(cacheDir)
+                .withLogger(new ConsoleLogger('silent'));
+
+            try {
+                expect(hostTarget()).toBeUndefined();
+                await expect(downloader.run(['cache', 'clear'])).resolves.toEqual([]);
+
+                expect(await new DownloadCache(cacheDir).list()).toEqual([]);
+            } finally {
+                arch.mockRestore();
+            }
+        });
+
+        it('clears cache entries', async () => {
+            const cacheDir = faker.system.directoryPath();
+            vol.fromJSON({ './file.bin': '0123456789' }, path.join(cacheDir, 'owner/repo/v1.0.0'));
+            await new DownloadCache(cacheDir).touch('owner/repo/v1.0.0');
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withCacheDir(cacheDir)
+                .withLogger(new ConsoleLogger('silent'));
+
+            await expect(downloader.run(['cache', 'clear'])).resolves.toEqual([]);
+
+            expect(await new DownloadCache(cacheDir).list()).toEqual([]);
+            expect(vol.existsSync(path.join(cacheDir, 'owner/repo/v1.0.0'))).toBe(false);
+        });
+
+        it('overrides configured versions', async () => {
+            const projectDir = faker.system.directoryPath();
+            vol.fromJSON({ './package.json': JSON.stringify({ downloader: { toolA: '1.2.3' } }) }, projectDir);
+            vitest.mocked(toolA.getAsset!).mockResolvedValueOnce({ ...assetMock, copyTo: vitest.fn(async dest => dest) } as Asset);
+
+            const downloader = new Downloader({ toolA, toolB })
+                .withProjectDir(projectDir)
+                .withTargetDir(faker.system.directoryPath());
+
+            await expect(downloader.run(['toolA', '--set', 'toolA=1.7.0'])).resolves.toEqual([expect.objectContaining({ tool: 'toolA', status: 'downloaded' })]);
+
+            expect(toolA.getAsset).toHaveBeenCalledWith(defaultTarget, '1.7.0');
+        });
+
         it('force download', async () => {
             const targetDir = faker.system.directoryPath();
             const cacheDir = faker.system.directoryPath();
@@ -443,9 +1598,9 @@ describe('Downloader', () => {
                 .withTargetDir(targetDir)
                 .withCacheDir(cacheDir);
 
-            downloader.download = vitest.fn().mockResolvedValue(undefined);
+            downloader.download = vitest.fn(downloaded);
 
-            await expect(downloader.run(['--force'])).resolves.toBeUndefined();
+            await expect(downloader.run(['--force'])).resolves.toHaveLength(2);
 
             expect(downloader.download).toHaveBeenCalledWith('toolA', defaultTarget, expect.objectContaining({ force: true }));
             expect(downloader.download).toHaveBeenCalledWith('toolB', defaultTarget, expect.objectContaining({ force: true }));
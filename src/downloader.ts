@@ -15,10 +15,11 @@
  */
 
 import path from 'node:path';
+import crypto from 'node:crypto';
 import os from 'node:os';
 import fs from 'node:fs/promises';
 import { exec as execAsync, execFile as execFileAsync } from 'node:child_process';
-import { downloadFile } from './file-download.ts';
+import { downloadFile, DownloadFileOptions, mergeDownloadOptions } from './file-download.ts';
 import yargs, { Argv } from 'yargs';
 import { hideBin } from 'yargs/helpers';
 import { PackageJson } from 'type-fest';
@@ -28,28 +29,78 @@ import { OutgoingHttpHeaders } from 'node:http';
 import extractZip from 'extract-zip';
 import * as tar from 'tar';
 import process from 'node:process';
+import { checkIntegrity, fileIntegrity } from './integrity.ts';
+import { isSameSource, Lockfile } from './lockfile.ts';
+import { KeyedMutex, WorkQueue } from './work-queue.ts';
+import { FileLock } from './file-lock.ts';
+import { DownloaderError, ExtractionError, FrozenLockfileError, IntegrityError } from './errors.ts';
+import { ConsoleLogger, DEFAULT_LOGGER, LOG_LEVELS, Logger } from './logger.ts';
+import { DownloadCache, formatSize, parseDuration, parseSize } from './cache.ts';
+import { createManifest, diffManifest, readReceipt, RECEIPT_VERSION, writeReceipt } from './receipt.ts';
 
 const exec = promisify(execAsync);
 const execFile = promisify(execFileAsync);
 
 const TAR_EXTENSIONS = ['.gz', '.bz2', '.xz', '.tar', '.tgz', '.tbz2', '.txz'] as const;
 
-export const PACKAGE_MANAGER = ['npm', 'yarn'] as const;
+export const PACKAGE_MANAGER = ['npm', 'yarn', 'pnpm', 'bun'] as const;
 export type PackageManager = typeof PACKAGE_MANAGER[number];
 
+/**
+ * Lockfiles identifying the package manager of a project, in order of precedence.
+ */
+const PACKAGE_MANAGER_LOCKFILES: [string, PackageManager][] = [
+    ['package-lock.json', 'npm'],
+    ['yarn.lock', 'yarn'],
+    ['pnpm-lock.yaml', 'pnpm'],
+    ['bun.lockb', 'bun'],
+    ['bun.lock', 'bun'],
+];
+
 /**
  * VS Code extension targets for VSCE packaging.
+ * The alpine targets are Linux with musl libc, web is VS Code for the Web, i.e., without native tools.
  */
 export const VSCE_TARGETS = [
     'win32-x64',
     'win32-arm64',
     'linux-x64',
     'linux-arm64',
+    'linux-armhf',
     'darwin-x64',
     'darwin-arm64',
+    'alpine-x64',
+    'alpine-arm64',
+    'web',
 ] as const;
 export type VsceTarget = typeof VSCE_TARGETS[number];
 
+/**
+ * Default layout of the tool folders, i.e., <dest>/<destination>.
+ */
+export const DEFAULT_LAYOUT = '{destination}';
+
+/**
+ * Default layout of the tool folders when downloading for multiple targets, i.e., <dest>/<target>/<destination>.
+ */
+export const TARGET_LAYOUT = '{target}/{destination}';
+
+/**
+ * Resolved origin of an asset, as recorded in the lockfile.
+ */
+export type AssetSource = {
+    /** Concrete URL (or file URL) the asset is fetched from. */
+    url?: string;
+    /** ID of the GitHub release the asset is attached to. */
+    releaseId?: number;
+    /** ID of the GitHub workflow run the asset is produced by. */
+    runId?: number;
+    /** Commit SHA of the repository snapshot. */
+    sha?: string;
+    /** SRI-style integrity (e.g. sha256-...) of the fetched file, available after copyTo. */
+    integrity?: string;
+};
+
 /**
  * Represents a single asset.
  */
@@ -60,6 +111,9 @@ export interface Asset {
     /** Cache ID for the asset */
     cacheId: Promise<string | undefined> | string | undefined;
 
+    /** Resolved source of the asset */
+    source?: Promise<AssetSource | undefined> | AssetSource | undefined;
+
     /**
      * Copy the asset into the given directory.
      *
@@ -68,9 +122,10 @@ export interface Asset {
      * - to the cache directory if available (see withCacheDir), or
      *
      * @param dest Target directory to copy the asset to.
+     * @param signal Signal to abort copying, i.e., pending requests, downloads and extraction.
      * @returns The path to the copied asset.
      */
-    copyTo(dest?: string): Promise<string>;
+    copyTo(dest?: string, signal?: AbortSignal): Promise<string>;
 
     /**
      * Set the cache directory for the asset.
@@ -80,12 +135,27 @@ export interface Asset {
      */
     withCacheDir(cacheDir: string | undefined): Asset;
 
+    /**
+     * Set default download options, e.g. timeouts and retry policy, for the asset.
+     * Download options given to the asset itself take precedence.
+     *
+     * @param options Default download options for the asset.
+     * @returns The asset itself, allowing for method chaining.
+     */
+    withDownloadOptions?(options: DownloadFileOptions): Asset;
+
     /**
      * Dispose of the asset, cleaning up any resources it holds.
      */
     dispose(): Promise<void> | void;
 }
 
+/** Options for downloading the file of an asset */
+export type AssetDownloadOptions = DownloadFileOptions & {
+    /** Expected SRI-style integrity of the file, e.g. sha256-<base64 digest>. */
+    integrity?: string | undefined;
+};
+
 export type DisposeFn = () => Promise<void> | void;
 export type Disposable = { dispose: DisposeFn };
 
@@ -99,9 +169,13 @@ function isDisposeFn(fn: unknown): fn is DisposeFn {
 
 export abstract class AbstractAsset implements Asset {
 
-    abstract copyTo(dest?: string): Promise<string>;
+    abstract copyTo(dest?: string, signal?: AbortSignal): Promise<string>;
+
+    private static readonly DOWNLOADS = new KeyedMutex();
 
     protected cacheDir: string | undefined;
+    protected downloadDefaults: DownloadFileOptions = {};
+    protected fetchedIntegrity: string | undefined;
 
     private readonly disposables = [] as DisposeFn[];
     protected addDisposable(fn: DisposeFn) : void;
@@ -132,11 +206,42 @@ export abstract class AbstractAsset implements Asset {
         return undefined;
     }
 
+    public get source(): Promise<AssetSource | undefined> | AssetSource | undefined {
+        return this.fetchedIntegrity ? { integrity: this.fetchedIntegrity } : undefined;
+    }
+
+    /**
+     * Amend the given source with the integrity of the fetched file, if any.
+     */
+    protected withFetchedIntegrity(source: AssetSource): AssetSource {
+        return this.fetchedIntegrity ? { ...source, integrity: this.fetchedIntegrity } : source;
+    }
+
+    /**
+     * Record the integrity of the fetched file.
+     */
+    protected async recordIntegrity(filePath: string) {
+        this.fetchedIntegrity = await fileIntegrity(filePath);
+        return filePath;
+    }
+
     public withCacheDir(cacheDir: string): Asset {
         this.cacheDir = cacheDir;
         return this;
     }
 
+    public withDownloadOptions(options: DownloadFileOptions): Asset {
+        this.downloadDefaults = options;
+        return this;
+    }
+
+    /**
+     * The logger given with the download options, defaults to the console.
+     */
+    protected get logger(): Logger {
+        return this.downloadDefaults.logger ?? DEFAULT_LOGGER;
+    }
+
     protected async mkDest(dest?: string) {
         if (dest === undefined) {
             return this.mkTempDir();
@@ -163,26 +268,51 @@ export abstract class AbstractAsset implements Asset {
     protected async assureFile(path: string) {
         const stat = await fs.stat(path).catch(() => undefined);
         if (stat?.isFile() || stat?.isSymbolicLink()) {
-            console.debug(`File ${path} already exists.`);
+            this.logger.debug(`File ${path} already exists.`);
             return true;
         } else if (stat?.isDirectory()) {
-            console.warn(`Directory at ${path} in the way, removing it.`);
+            this.logger.warn(`Directory at ${path} in the way, removing it.`);
             await fs.rm(path, { recursive: true, force: true });
         }
         return false;
     }
 
-    protected async downloadFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders = {}) {
+    /**
+     * Fail if the file does not match the expected integrity, the file is removed in that case.
+     */
+    protected async verifyIntegrity(filePath: string, integrity: string | undefined) {
+        if (integrity !== undefined && !await checkIntegrity(filePath, integrity)) {
+            const actual = await fileIntegrity(filePath);
+            await fs.rm(filePath, { force: true });
+            throw new IntegrityError(`Integrity check failed for ${filePath}, expected ${integrity}`, integrity, actual);
+        }
+        return filePath;
+    }
+
+    protected async downloadFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders = {}, options: AssetDownloadOptions = {}) {
+        // Concurrent downloads to the same (cache) location are serialized,
+        // the latter ones reuse the file fetched by the first one.
+        return AbstractAsset.DOWNLOADS.run(
+            path.resolve(downloadFilePath),
+            () => this.fetchFile(url, downloadFilePath, headers, options),
+        );
+    }
+
+    private async fetchFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders, options: AssetDownloadOptions) {
         if (await this.assureFile(downloadFilePath)) {
-            return downloadFilePath;
+            await this.verifyIntegrity(downloadFilePath, options.integrity);
+            return this.recordIntegrity(downloadFilePath);
         }
-        console.debug(`Downloading ${url} ...`);
-        return downloadFile(url.toString(), downloadFilePath, headers);
+        await downloadFile(url.toString(), downloadFilePath, headers, mergeDownloadOptions(this.downloadDefaults, options));
+        await this.verifyIntegrity(downloadFilePath, options.integrity);
+        return this.recordIntegrity(downloadFilePath);
     }
 
-    protected async extractArchive(archiveFile: string, dest?: string, options: { strip?: number; force?: boolean } = {}) {
+    protected async extractArchive(archiveFile: string, dest?: string, options: { strip?: number; force?: boolean; signal?: AbortSignal | undefined } = {}) {
+        const signal = options.signal ?? this.downloadDefaults.signal;
+        signal?.throwIfAborted();
         dest = await this.mkDest(dest);
-        console.debug(`Extracting to ${dest} ...`);
+        this.logger.progress?.({ type: 'extract', archive: archiveFile, dest });
 
         const ext = path.extname(archiveFile).toLowerCase();
 
@@ -213,16 +343,22 @@ export abstract class AbstractAsset implements Asset {
                     if (!this.isTarLargeNumberHeaderError(error)) {
                         throw error;
                     }
-                    console.warn('Falling back to system tar for extraction due to incompatible TAR header parsing.');
-                    await this.extractWithSystemTar(archiveFile, dest, options.strip);
+                    this.logger.warn('Falling back to system tar for extraction due to incompatible TAR header parsing.');
+                    await this.extractWithSystemTar(archiveFile, dest, options.strip, signal);
                 }
             } else {
-                throw new Error(`Unsupported archive format: ${ext}`);
+                throw new ExtractionError(`Unsupported archive format: ${ext}`, archiveFile, ext);
             }
         } catch (error) {
-            throw new Error('Failed to extract archive', { cause: error });
+            signal?.throwIfAborted();
+            if (error instanceof DownloaderError) {
+                throw error;
+            }
+            throw new ExtractionError(`Failed to extract archive ${archiveFile}`, archiveFile, ext, { cause: error });
         }
 
+        // Extraction itself cannot be interrupted, at least skip the following steps
+        signal?.throwIfAborted();
         return dest;
     }
 
@@ -249,12 +385,12 @@ export abstract class AbstractAsset implements Asset {
         });
     }
 
-    private async extractWithSystemTar(archiveFile: string, dest: string, strip = 0): Promise<void> {
+    private async extractWithSystemTar(archiveFile: string, dest: string, strip = 0, signal?: AbortSignal): Promise<void> {
         const args = ['-xf', archiveFile, '-C', dest];
         if (strip > 0) {
             args.push('--strip-components', String(strip));
         }
-        await execFile('tar', args);
+        await (signal ? execFile('tar', args, { signal }) : execFile('tar', args));
     }
 
     private async stripDirectories(dir: string, levels: number): Promise<void> {
@@ -315,17 +451,74 @@ export interface Downloadable {
     /**
      * Retrieves the asset for the given target.
      * @param target The VSCE target for which to retrieve the asset.
-     * @returns A promise that resolves to the asset, or undefined if not found.
+     * @param version The version configured in the downloader section of package.json
+     *                or on the command line, if any. Local paths are given as resolved file: URLs.
+     * @returns A promise that resolves to the asset, or undefined if not found
+     *          or the tool is not available for the target, e.g. web.
+     */
+    readonly getAsset?: GetAssetFn;
+
+    /**
+     * Called after the asset has been copied, e.g. to make binaries executable or to remove unneeded files.
+     * @param dest The directory the tool is installed to. The tool is staged in a temporary folder
+     *             which is moved to its destination once all hooks succeeded.
+     * @param target The VSCE target of the installed tool.
+     */
+    readonly postInstall?: InstallHookFn;
+
+    /**
+     * Called after postInstall to check that the installed tool works, e.g. by running `tool --version`.
+     * Skipped if the target differs from the host, i.e., the tool cannot be run.
+     * @param dest The directory the tool is installed to, see postInstall.
+     * @param target The VSCE target of the installed tool.
+     * @returns A promise that rejects if the tool is broken, the previous install is kept in this case.
      */
-    readonly getAsset?: (target: VsceTarget) => Promise<Asset | undefined>;
+    readonly verify?: InstallHookFn;
+
+    /**
+     * Whether the tool is optional, i.e., run reports its failure as warning without failing.
+     */
+    readonly optional?: boolean;
 }
 
+/**
+ * Retrieves the asset of a tool for the given target, undefined if the tool is not available for the target,
+ * e.g. for web which has no native tools.
+ */
+export type GetAssetFn = (target: VsceTarget, version?: string) => Promise<Asset | undefined>;
+export type InstallHookFn = (dest: string, target: VsceTarget) => Promise<void>;
+
+/**
+ * Optional lifecycle hooks of a downloadable item.
+ */
+export type DownloadableHooks = Pick<Downloadable, 'postInstall' | 'verify'>;
+
+/**
+ * Optional hooks and flags of a downloadable item.
+ */
+export type DownloadableOptions = DownloadableHooks & Pick<Downloadable, 'optional'>;
+
 class DownloadableImpl implements Downloadable {
+    public readonly postInstall?: InstallHookFn;
+    public readonly verify?: InstallHookFn;
+    public readonly optional?: boolean;
+
     constructor(
         public readonly name: string,
         private readonly _destination: string | string[],
-        public readonly getAsset: (target: VsceTarget) => Promise<Asset | undefined>
-    ) {}
+        public readonly getAsset: GetAssetFn,
+        options: DownloadableOptions = {},
+    ) {
+        if (options.postInstall) {
+            this.postInstall = options.postInstall;
+        }
+        if (options.verify) {
+            this.verify = options.verify;
+        }
+        if (options.optional) {
+            this.optional = options.optional;
+        }
+    }
 
     public get destination(): string {
         if (Array.isArray(this._destination)) {
@@ -336,7 +529,7 @@ class DownloadableImpl implements Downloadable {
 }
 
 interface DownloadableConstructor {
-    new (name: string, destination: string | string[], getAsset: (target: VsceTarget) => Promise<Asset | undefined>): Downloadable;
+    new (name: string, destination: string | string[], getAsset: GetAssetFn, options?: DownloadableOptions): Downloadable;
 }
 
 export const Downloadable: DownloadableConstructor = DownloadableImpl;
@@ -369,6 +562,62 @@ export interface Downloader<T extends Record<string, Downloadable>> {
      */
     withCacheDir(cacheDir: string | undefined): Downloader<T>;
 
+    /**
+     * Set the lockfile for the downloader, defaults to <projectDir>/tools.lock.json.
+     * If set, the resolved version, source and integrity of each downloaded tool
+     * is recorded there. Pass undefined to disable the lockfile.
+     * @param lockfile The path to the lockfile.
+     * @return The downloader instance for method chaining.
+     */
+    withLockfile(lockfile: string | undefined): Downloader<T>;
+
+    /**
+     * Set the layout of the tool folders below the target directory, defaults to DEFAULT_LAYOUT.
+     * The placeholders {target} and {destination} are replaced with the VSCE target and
+     * the destination of the downloadable, respectively.
+     * @param layout The layout template, e.g. TARGET_LAYOUT for <targetDir>/<target>/<destination>.
+     * @return The downloader instance for method chaining.
+     */
+    withLayout(layout: string): Downloader<T>;
+
+    /**
+     * Set the maximum number of concurrent downloads issued by run, defaults to 4.
+     * @param jobs The maximum number of concurrent downloads.
+     * @return The downloader instance for method chaining.
+     */
+    withConcurrency(jobs: number): Downloader<T>;
+
+    /**
+     * Set the default download options, e.g. timeouts and retry policy, for all assets.
+     * Download options given to an asset itself take precedence.
+     * @param options The default download options.
+     * @return The downloader instance for method chaining.
+     */
+    withDownloadOptions(options: DownloadFileOptions): Downloader<T>;
+
+    /**
+     * Set the logger receiving messages and progress events, defaults to a ConsoleLogger.
+     * The --quiet and --verbose options of run only adjust the level of a ConsoleLogger.
+     * @param logger The logger to use.
+     * @return The downloader instance for method chaining.
+     */
+    withLogger(logger: Logger): Downloader<T>;
+
+    /**
+     * Override the tool versions configured in the downloader section of package.json.
+     * @param versions The versions by tool key.
+     * @return The downloader instance for method chaining.
+     */
+    withVersions(versions: Partial<Record<keyof T, string>>): Downloader<T>;
+
+    /**
+     * Get the configured tool versions, i.e., the downloader section of package.json
+     * merged with the overrides given by withVersions or --set.
+     * @returns A promise that resolves to the versions by tool key.
+     * @throws If the downloader section refers to unknown tools or contains non-string versions.
+     */
+    toolVersions(): Promise<Partial<Record<keyof T, string>>>;
+
     /**
      * Get the package.json file of the project, i.e., <projectDir>/package.json.
      * @template J The type of the package.json file, defaults to PackageJson.
@@ -377,12 +626,15 @@ export interface Downloader<T extends Record<string, Downloadable>> {
     getPackageJson<J extends PackageJson = PackageJson>(): Promise<J | undefined>;
 
     /**
-     * Get the package manager used in the project, based on the package.json file.
+     * Get the package manager used in the project, i.e., the first one found in
+     * the (Corepack) packageManager field of package.json, the lockfiles in the project directory
+     * (package-lock.json, yarn.lock, pnpm-lock.yaml, bun.lockb), or the engines of package.json.
      */
     packageManager(): Promise<PackageManager | undefined>;
 
     /**
-     * Get the default cache directory based on the package manager.
+     * Get the default cache directory based on the package manager, i.e., the npm cache,
+     * the Yarn classic cache or the cache in the Yarn Berry global folder, the pnpm store, or the bun cache.
      */
     defaultCacheDir(): Promise<string | undefined>;
 
@@ -391,15 +643,43 @@ export interface Downloader<T extends Record<string, Downloadable>> {
      * @param what The key of the tool to download.
      * @param target The VSCE target to download the tool for.
      * @param options Options for the download process.
+     * @returns A promise that resolves to the result, i.e., downloaded or skipped.
+     * @throws If the download fails, run reports such failures as failed results instead.
+     */
+    download(what: keyof T, target: VsceTarget, options?: DownloadOptions): Promise<DownloadResult>;
+
+    /**
+     * Resolve a specific tool for the given target without downloading it,
+     * and determine the action a download would take.
+     * @param what The key of the tool to plan.
+     * @param target The VSCE target to plan the tool for.
+     * @param options Options for the download process.
+     * @returns A promise that resolves to the planned action.
+     */
+    plan(what: keyof T, target: VsceTarget, options?: DownloadOptions): Promise<PlanEntry>;
+
+    /**
+     * Write the lockfile with the state recorded by previous downloads.
      */
-    download(what: keyof T, target: VsceTarget, options?: DownloadOptions): Promise<void>;
+    saveLockfile(): Promise<void>;
 
     /**
      * Run the command line interface for the downloader.
+     * Tools are downloaded for all requested targets concurrently, bounded by the configured concurrency.
+     * All downloads are run to completion, even if some fail, and a summary is printed.
+     * Failures of required tools set a non-zero exit code, failures of optional tools are reported as warnings.
+     * The lockfile is written after all required downloads succeeded, unless frozen.
+     * SIGINT and SIGTERM abort all pending downloads, keeping previously installed versions.
+     * The plan command prints the planned actions instead, without touching the destination.
+     * The check command prints the installation status and sets a non-zero exit code if any tool is missing or stale.
+     * The verify command compares the installed files with the install receipts and sets a non-zero exit code
+     * if any tool has been modified, unless repaired by reinstalling it.
+     * The cache commands list, prune or clear the entries of the cache directory.
      * @param argv The command line arguments, defaults to process.argv.
+     * @returns A promise that resolves to the download results, empty for other commands.
+     * @throws If the downloads have been aborted.
      */
-
-    run(argv?: string[]): Promise<void>;
+    run(argv?: string[]): Promise<DownloadResult[]>;
 }
 
 // Ensure the directory does not exist
@@ -419,6 +699,55 @@ async function ensureDirectory(directoryPath: string) {
     await fs.mkdir(directoryPath, { recursive: true });
 };
 
+let muslHost: boolean | undefined;
+
+// Whether the system running the downloader uses musl instead of glibc, e.g. Alpine Linux
+function isMusl() {
+    if (muslHost === undefined) {
+        const report = process.report?.getReport() as { header?: { glibcVersionRuntime?: string } } | undefined;
+        muslHost = os.platform() === 'linux' && report?.header?.glibcVersionRuntime === undefined;
+    }
+    return muslHost;
+}
+
+/**
+ * Get the VSCE target of a system, defaults to the system running the downloader.
+ * @param platform The Node.js platform, e.g. linux.
+ * @param arch The Node.js architecture, e.g. arm for 32-bit ARM.
+ * @param musl Whether the system uses musl libc, i.e., Alpine Linux.
+ * @returns The VSCE target, or undefined if the system is not supported by VS Code.
+ */
+export function hostTarget(platform: string = os.platform(), arch: string = os.arch(), musl: boolean = platform === 'linux' && isMusl()): VsceTarget | undefined {
+    if (platform === 'linux' && arch === 'arm') {
+        return musl ? undefined : 'linux-armhf';
+    }
+    const target = `${platform === 'linux' && musl ? 'alpine' : platform}-${arch}`;
+    return VSCE_TARGETS.find(t => t === target);
+}
+
+// Sibling directory to stage the content of the given directory in
+function stagingDirectory(directoryPath: string) {
+    return path.join(path.dirname(directoryPath), `.${path.basename(directoryPath)}.staging-${crypto.randomBytes(4).toString('hex')}`);
+}
+
+// Replace the directory by the staged one, the previous content is restored if the replacement fails
+async function replaceDirectory(staging: string, directoryPath: string) {
+    const backup = `${staging}.previous`;
+    const hasPrevious = await fs.stat(directoryPath).then(() => true, () => false);
+    if (hasPrevious) {
+        await fs.rename(directoryPath, backup);
+    }
+    try {
+        await fs.rename(staging, directoryPath);
+    } catch (error) {
+        if (hasPrevious) {
+            await fs.rename(backup, directoryPath);
+        }
+        throw error;
+    }
+    await ensureNoDirectory(backup);
+}
+
 // Returns the contents of the file if it exists. If it does not exist, returns undefined.
 async function maybeReadFile(filePath: string) {
     try {
@@ -431,10 +760,151 @@ async function maybeReadFile(filePath: string) {
     }
 };
 
+// Whether the tool folder has been installed from the given source, assumed for tools installed without receipt
+async function isInstalledFrom(destination: string, source: AssetSource | undefined) {
+    const receipt = await readReceipt(destination);
+    if (receipt === undefined) {
+        return true;
+    }
+    return isSameSource(receipt.source, source) && (source?.integrity === undefined || receipt.source.integrity === source.integrity);
+}
+
+/**
+ * Action a download would take for a tool.
+ * - skip: the resolved version is already installed, or no asset is available.
+ *   Assets without version are compared by the source recorded in the install receipt.
+ * - download: the tool is not installed yet.
+ * - update: a different version or target is installed.
+ */
+export type PlanAction = 'skip' | 'download' | 'update';
+
+/**
+ * Planned download of a single tool for a single target.
+ */
+export type PlanEntry = {
+    tool: string;
+    target: VsceTarget;
+    /** Destination directory of the tool. */
+    destination: string;
+    /** Version installed at the destination, if any. */
+    currentVersion: string | undefined;
+    /** Version the asset resolves to. */
+    resolvedVersion: string | undefined;
+    /** Cache ID of the asset. */
+    cacheId: string | undefined;
+    /** Resolved source of the asset. */
+    source: AssetSource | undefined;
+    /** Whether an asset is available for the target. */
+    available: boolean;
+    action: PlanAction;
+};
+
+/**
+ * Installation status of a tool.
+ * - ok: the resolved version (or source of assets without version) is installed, or no asset is available for the target.
+ * - missing: the tool is not installed.
+ * - stale: a different version or target is installed.
+ */
+export type CheckStatus = 'ok' | 'missing' | 'stale';
+
+const CHECK_STATUS: Record<PlanAction, CheckStatus> = {
+    skip: 'ok',
+    download: 'missing',
+    update: 'stale',
+};
+
+/**
+ * Verification status of an installed tool.
+ * - ok: the installed files match the install receipt.
+ * - modified: files have been modified, removed or added since the installation.
+ * - repaired: the modified tool has been reinstalled.
+ * - repair-failed: the modified tool could not be reinstalled.
+ * - unverified: the tool has been installed without receipt.
+ * - not-installed: the tool is not installed.
+ */
+export type VerifyStatus = 'ok' | 'modified' | 'repaired' | 'repair-failed' | 'unverified' | 'not-installed';
+
+/**
+ * Outcome of downloading a tool.
+ * - skipped: the resolved version is already installed, or no asset is available for the target.
+ * - downloaded: the tool has been installed.
+ * - failed: the download failed, see error.
+ */
+export type DownloadStatus = 'skipped' | 'downloaded' | 'failed';
+
+/**
+ * Use of the cache by a download.
+ * - hit: the files have been taken from a previously recorded cache entry.
+ * - miss: the files have been fetched into a new cache entry.
+ */
+export type CacheStatus = 'hit' | 'miss';
+
+/**
+ * Result of downloading a single tool for a single target.
+ */
+export type DownloadResult = {
+    tool: string;
+    target: VsceTarget;
+    /** Version the asset resolved to, if known. */
+    version: string | undefined;
+    status: DownloadStatus;
+    /** Destination directory of the tool. */
+    destination: string;
+    /** Resolved source of the asset, if available. */
+    source?: AssetSource;
+    /** Use of the cache, if the tool has been downloaded with a cache. */
+    cache?: CacheStatus;
+    /** Duration of the download in milliseconds. */
+    duration: number;
+    /** Reason of a failed download. */
+    error?: unknown;
+};
+
+/**
+ * Document written by run with --json or --output, describing all downloads.
+ */
+export type DownloadReport = {
+    /** Whether all required tools have been downloaded or skipped. */
+    ok: boolean;
+    /** VSCE target of the system running the downloader, if supported. */
+    host: VsceTarget | undefined;
+    /** VSCE targets the tools have been downloaded for. */
+    targets: VsceTarget[];
+    tools: (Omit<DownloadResult, 'error'> & {
+        name: string;
+        optional: boolean;
+        error?: { name: string; message: string; code?: string };
+    })[];
+};
+
+// Short description of an asset source for display
+function describeSource(source: AssetSource | undefined) {
+    if (source?.url) {
+        return source.url;
+    } else if (source?.releaseId !== undefined) {
+        return `release ${source.releaseId}`;
+    } else if (source?.runId !== undefined) {
+        return `run ${source.runId}`;
+    } else if (source?.sha) {
+        return `commit ${source.sha}`;
+    }
+    return '-';
+}
+
+// Format rows as table with left aligned columns
+function formatTable(rows: string[][]) {
+    const widths = rows[0].map((_, i) => Math.max(...rows.map(row => row[i].length)));
+    return rows.map(row => row.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd()).join('\n');
+}
+
 /** Download options */
 type DownloadOptions = {
      /** Force download even if the tool is already present. */
     force?: boolean;
+    /** Refuse to resolve anything not recorded in the lockfile and fail on integrity mismatch. */
+    frozenLockfile?: boolean;
+    /** Signal to abort the download, a previously installed version is kept. */
+    signal?: AbortSignal;
 };
 
 class DownloaderImpl<T extends Record<string, Downloadable>> implements Downloader<T> {
@@ -442,7 +912,17 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
     protected projectDir: string = process.cwd();
     protected targetDir: string = `${this.projectDir}/tools`;
     protected cacheDir: string | undefined = undefined;
+    protected layout: string = DEFAULT_LAYOUT;
+    protected concurrency: number = 4;
+    protected downloadOptions: DownloadFileOptions = {};
+    protected logger: Logger = new ConsoleLogger();
+    protected versionOverrides: Partial<Record<keyof T, string>> = {};
+    protected readonly cacheLocks = new KeyedMutex();
+    // Version and source resolved before a download failed, by the thrown error
+    protected readonly failures = new WeakMap<object, Pick<DownloadResult, 'version' | 'source'>>();
     protected packageJson: PackageJson | undefined = undefined;
+    protected lockfilePath: string | null | undefined = undefined;
+    protected lockfilePromise: Promise<Lockfile | undefined> | undefined = undefined;
     protected readonly tools: string[];
 
     constructor(
@@ -452,13 +932,21 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
     }
 
     protected parser() {
+        const toolsPositional = (y: Argv) => y.positional('tools', {
+            description: 'Dependency to be fetched',
+            type: 'string',
+            array: true,
+            choices: this.tools,
+            default: this.tools,
+        });
         const parser = yargs()
             .option('target', {
                 alias: 't',
-                description: 'VS Code extension target, defaults to system',
+                description: 'VS Code extension target(s), or all, defaults to system',
                 type: 'string',
-                choices: VSCE_TARGETS,
-                default: `${os.platform()}-${os.arch()}`,
+                array: true,
+                choices: [...VSCE_TARGETS, 'all'],
+                default: hostTarget() !== undefined ? [hostTarget()] : [],
             })
             .option('dest', {
                 alias: 'd',
@@ -467,23 +955,132 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
                 default: this.targetDir,
                 normalize: true,
             })
+            .option('layout', {
+                description: `Layout of tool folders in dest, defaults to ${DEFAULT_LAYOUT} for a single and ${TARGET_LAYOUT} for multiple targets`,
+                type: 'string',
+            })
+            .option('jobs', {
+                alias: 'j',
+                description: 'Maximum number of concurrent downloads',
+                type: 'number',
+                default: this.concurrency,
+            })
+            .option('retries', {
+                description: 'Maximum number of retries for failed downloads',
+                type: 'number',
+                default: this.downloadOptions.retry?.retries,
+            })
+            .option('timeout', {
+                description: 'Timeout in milliseconds for unresponsive or stalled downloads',
+                type: 'number',
+                default: this.downloadOptions.idleTimeout,
+            })
+            .option('quiet', {
+                alias: 'q',
+                description: 'Only log errors',
+                type: 'boolean',
+                conflicts: 'verbose',
+            })
+            .option('verbose', {
+                alias: 'v',
+                description: 'Log debug messages',
+                type: 'boolean',
+            })
+            .option('set', {
+                description: 'Override the version of a tool given in package.json, e.g. --set <tool>=<version>',
+                type: 'string',
+                array: true,
+                default: [],
+            })
             .option('force', {
                 alias: 'f',
                 description: 'Force download of tools',
                 type: 'boolean',
                 default: false,
             })
+            .option('lockfile', {
+                alias: 'l',
+                description: 'Lockfile recording resolved tool sources',
+                type: 'string',
+                default: this.getLockfilePath(),
+                normalize: true,
+            })
+            .option('frozen-lockfile', {
+                description: 'Fail if a tool resolves differently than recorded in the lockfile',
+                type: 'boolean',
+                default: false,
+            })
             .version(false)
             .strict()
-            .command('$0 [<tools> ...]', 'Downloads the tool(s) for the given architecture and OS', y => {
-                y.positional('tools', {
-                    description: 'Dependency to be fetched',
+            .check(args => {
+                const layout = args.layout as string | undefined;
+                const targets = args.target as string[];
+                if (targets.length === 0 && args._[0] !== 'cache') {
+                    throw new Error(`No VS Code extension target for host ${os.platform()}-${os.arch()}, use --target.`);
+                }
+                if (!((args.jobs as number) >= 1)) {
+                    throw new Error('Jobs must be a number of at least 1.');
+                }
+                if (layout !== undefined && !layout.includes('{destination}')) {
+                    throw new Error('Layout must contain the {destination} placeholder.');
+                }
+                if (layout !== undefined && (targets.length > 1 || targets.includes('all')) && !layout.includes('{target}')) {
+                    throw new Error('Layout must contain the {target} placeholder when downloading for multiple targets.');
+                }
+                for (const assignment of args.set as string[]) {
+                    const [tool] = assignment.split('=', 1);
+                    if (!assignment.includes('=') || !this.tools.includes(tool)) {
+                        throw new Error(`Invalid --set ${assignment}, expected <tool>=<version> with tool one of ${this.tools.join(', ')}.`);
+                    }
+                }
+                return true;
+            })
+            .command('$0 [<tools> ...]', 'Downloads the tool(s) for the given architecture and OS', y => toolsPositional(y)
+                .option('json', {
+                    description: 'Print a JSON report of all downloads, instead of info messages',
+                    type: 'boolean',
+                    conflicts: 'verbose',
+                })
+                .option('output', {
+                    alias: 'o',
+                    description: 'Write a JSON report of all downloads to the given file',
                     type: 'string',
-                    array: true,
-                    choices: this.tools,
-                    default: this.tools,
-                });
-            });
+                    normalize: true,
+                }))
+            .command('plan [<tools> ...]', 'Shows what would be downloaded, without touching the destination', toolsPositional)
+            .command('check [<tools> ...]', 'Checks that the tool(s) are installed at the resolved version, exits non-zero otherwise', y => toolsPositional(y)
+                .option('json', {
+                    description: 'Print the result as JSON',
+                    type: 'boolean',
+                    default: false,
+                }))
+            .command('verify [<tools> ...]', 'Verifies the installed files against the install receipts, exits non-zero if modified', y => toolsPositional(y)
+                .option('repair', {
+                    description: 'Reinstall modified tools, from the cache if available',
+                    type: 'boolean',
+                    default: false,
+                }))
+            .command('cache', 'Manages the download cache', y => y
+                .command('list', 'Lists the cache entries, most recently used first')
+                .command('prune', 'Removes cache entries, least recently used first', y => y
+                    .option('max-size', {
+                        description: 'Maximum total size of the cache, e.g. 500M or 2G',
+                        type: 'string',
+                        coerce: parseSize,
+                    })
+                    .option('older-than', {
+                        description: 'Maximum time since the last use of an entry, e.g. 12h or 30d',
+                        type: 'string',
+                        coerce: parseDuration,
+                    })
+                    .check(args => {
+                        if (args.maxSize === undefined && args.olderThan === undefined) {
+                            throw new Error('Either --max-size or --older-than is required.');
+                        }
+                        return true;
+                    }))
+                .command('clear', 'Removes all cache entries')
+                .demandCommand(1));
 
         if (this.cacheDir !== undefined)  {
             parser.option('cache', {
@@ -496,18 +1093,35 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
             });
         }
         return parser as unknown as Argv<{
-            target: VsceTarget;
+            target: (VsceTarget | 'all')[];
             dest: string;
+            layout?: string;
+            jobs: number;
+            retries?: number;
+            timeout?: number;
+            quiet?: boolean;
+            verbose?: boolean;
+            set: string[];
             force: boolean;
+            lockfile?: string;
+            frozenLockfile: boolean;
             cache?: string;
             tools: (keyof T)[];
+            json?: boolean;
+            output?: string;
+            maxSize?: number;
+            olderThan?: number;
+            _: (string | number)[];
         }>;
     }
 
     public async getPackageJson<J extends PackageJson = PackageJson>() : Promise<J | undefined> {
         if (this.packageJson === undefined) {
             const packageJsonPath = path.join(this.projectDir, 'package.json');
-            const packageJsonContent = await fs.readFile(packageJsonPath, { encoding: 'utf-8' });
+            const packageJsonContent = await maybeReadFile(packageJsonPath);
+            if (packageJsonContent === undefined) {
+                return undefined;
+            }
             const replaced = packageJsonContent.replaceAll(
                 /"file:([^"]+)"/gm,
                 (_, ...args) => `"file:${path.resolve(this.projectDir, args[0])}"`
@@ -517,20 +1131,78 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
         return this.packageJson as J;
     }
 
+    public withVersions(versions: Partial<Record<keyof T, string>>) {
+        this.versionOverrides = { ...this.versionOverrides, ...versions };
+        return this;
+    }
+
+    public async toolVersions(): Promise<Partial<Record<keyof T, string>>> {
+        const section = (await this.getPackageJson())?.downloader ?? {};
+        if (typeof section !== 'object' || Array.isArray(section)) {
+            throw new Error('The downloader section of package.json must map tools to versions.');
+        }
+        for (const [tool, version] of Object.entries(section)) {
+            if (!this.tools.includes(tool)) {
+                throw new Error(`Unknown tool '${tool}' in downloader section of package.json, expected one of ${this.tools.join(', ')}.`);
+            }
+            if (typeof version !== 'string') {
+                throw new Error(`Version of '${tool}' in downloader section of package.json must be a string.`);
+            }
+        }
+        return { ...section as Partial<Record<keyof T, string>>, ...this.versionOverrides };
+    }
+
     public async packageManager(): Promise<PackageManager | undefined> {
         const packageJson = await this.getPackageJson();
+        // Corepack field, e.g. pnpm@9.1.0+sha512.<hash>
+        const corepack = packageJson?.packageManager?.split('@', 1)[0];
+        const fromField = PACKAGE_MANAGER.find(pm => pm === corepack);
+        if (fromField !== undefined) {
+            return fromField;
+        }
+        for (const [lockfile, pm] of PACKAGE_MANAGER_LOCKFILES) {
+            if (await fs.stat(path.join(this.projectDir, lockfile)).then(s => s.isFile(), () => false)) {
+                return pm;
+            }
+        }
         return PACKAGE_MANAGER.find(pm => pm in (packageJson?.engines ?? {}));
     }
 
+    // Run a package manager command in the project directory, so that project specific configuration applies
+    protected async packageManagerOutput(command: string) {
+        return (await exec(command, { cwd: this.projectDir })).stdout.trim();
+    }
+
     public async defaultCacheDir(): Promise<string | undefined> {
-        switch (await this.packageManager()) {
+        const packageManager = await this.packageManager();
+        if (packageManager === undefined) {
+            this.logger.info('No supported package manager found, disable caching.');
+            return undefined;
+        }
+        try {
+            return await this.packageManagerCacheDir(packageManager);
+        } catch (error) {
+            // E.g., the lockfile of a package manager not installed on this machine
+            this.logger.warn(`Failed to query the cache directory of ${packageManager}, disable caching:`, error);
+            return undefined;
+        }
+    }
+
+    // Query the cache directory of the given package manager
+    protected async packageManagerCacheDir(packageManager: PackageManager): Promise<string> {
+        switch (packageManager) {
             case 'npm':
-                return exec('npm config get cache').then(r => path.join(r.stdout.trim(), '_cacache'));
+                return path.join(await this.packageManagerOutput('npm config get cache'), '_cacache');
             case 'yarn':
-                return exec('yarn cache dir').then(r => r.stdout.trim());
-            default:
-                console.info('No supported package manager found, disable caching.');
-                return undefined;
+                // Yarn Berry (2+) has no global cache dir command, but keeps its cache in the global folder
+                if (parseInt(await this.packageManagerOutput('yarn --version')) >= 2) {
+                    return path.join(await this.packageManagerOutput('yarn config get globalFolder'), 'cache');
+                }
+                return this.packageManagerOutput('yarn cache dir');
+            case 'pnpm':
+                return this.packageManagerOutput('pnpm store path');
+            case 'bun':
+                return this.packageManagerOutput('bun pm cache');
         }
     }
 
@@ -549,56 +1221,498 @@ class DownloaderImpl<T extends Record<string, Downloadable>> implements Download
         return this;
     }
 
-    public async download(what: keyof T, target: VsceTarget, options: DownloadOptions = {}) {
+    public withLayout(layout: string) {
+        this.layout = layout;
+        return this;
+    }
+
+    public withConcurrency(jobs: number) {
+        this.concurrency = jobs;
+        return this;
+    }
+
+    public withDownloadOptions(options: DownloadFileOptions) {
+        this.downloadOptions = options;
+        return this;
+    }
+
+    public withLogger(logger: Logger) {
+        this.logger = logger;
+        return this;
+    }
+
+    protected toolDestination(item: Downloadable, target: VsceTarget) {
+        const relative = this.layout
+            .replaceAll('{target}', target)
+            .replaceAll('{destination}', item.destination);
+        return path.join(this.targetDir, relative);
+    }
+
+    public withLockfile(lockfile: string | undefined) {
+        this.lockfilePath = lockfile ?? null;
+        this.lockfilePromise = undefined;
+        return this;
+    }
+
+    protected getLockfilePath() {
+        if (this.lockfilePath === null) {
+            return undefined;
+        }
+        return this.lockfilePath ?? path.join(this.projectDir, 'tools.lock.json');
+    }
+
+    protected getLockfile() {
+        if (this.lockfilePromise === undefined) {
+            const lockfilePath = this.getLockfilePath();
+            this.lockfilePromise = lockfilePath ? Lockfile.load(lockfilePath) : Promise.resolve(undefined);
+        }
+        return this.lockfilePromise;
+    }
+
+    public async saveLockfile() {
+        const lockfile = await this.getLockfile();
+        await lockfile?.save();
+    }
+
+    public async download(what: keyof T, target: VsceTarget, options: DownloadOptions = {}): Promise<DownloadResult> {
         const item = this.downloadables[what];
+        const start = Date.now();
+        const destination = this.toolDestination(item, target);
+        const result = (status: DownloadStatus, version: string | undefined, source?: AssetSource, cache?: CacheStatus): DownloadResult => ({
+            tool: String(what), target, version, status, destination,
+            ...(source !== undefined ? { source } : {}),
+            ...(cache !== undefined ? { cache } : {}),
+            duration: Date.now() - start,
+        });
 
-        const destination = path.join(this.targetDir, item.destination);
         const versionFilePath = path.join(destination, 'version.txt');
         const targetFilePath = path.join(destination, 'target.txt');
 
-        console.log(`Downloading ${item.name} to ${destination}...`);
+        options.signal?.throwIfAborted();
+        this.logger.info(`Downloading ${item.name} to ${destination}...`);
 
         const currentVersion = await maybeReadFile(versionFilePath);
         const currentTarget = await maybeReadFile(targetFilePath);
 
-        const asset = await item.getAsset?.(target);
-        if (!asset) {
-            console.warn(`No asset found for ${item.name} for target ${target}. Skipping.`);
-            return;
-        }
-
+        let version: string | undefined;
+        let asset: Asset | undefined;
+        let assetVersion: string | undefined;
+        let installed: { source: AssetSource, cache: CacheStatus | undefined };
         try {
-            const assetVersion = await asset.version;
-            if ((options?.force !== true) && (assetVersion !== undefined) && (currentVersion === assetVersion && currentTarget === target)) {
-                console.info(`Already downloaded ${item.name} version ${currentVersion} for target ${target}.`);
-                return;
+            const lockfile = await this.getLockfile();
+            const locked = lockfile?.get(String(what), target);
+            if (options.frozenLockfile && locked === undefined) {
+                throw new FrozenLockfileError(`No lockfile entry for ${item.name} for target ${target}, cannot download with frozen lockfile.`, String(what), target);
             }
 
-            await ensureDirectory(destination);
-            await asset.withCacheDir(this.cacheDir).copyTo(destination);
+            version = (await this.toolVersions())[what];
+            asset = await item.getAsset?.(target, version);
+            if (!asset) {
+                if (target === 'web') {
+                    this.logger.info(`${item.name} is not available for target web. Skipping.`);
+                } else {
+                    this.logger.warn(`No asset found for ${item.name} for target ${target}. Skipping.`);
+                }
+                return result('skipped', undefined);
+            }
+
+            asset.withDownloadOptions?.({ ...this.downloadOptions, logger: this.logger, signal: options.signal });
+            assetVersion = await asset.version;
+            this.logger.progress?.({ type: 'resolve', tool: String(what), target, version: assetVersion });
+            if (options.frozenLockfile) {
+                const source = await asset.source;
+                if (locked?.version !== assetVersion || !isSameSource(locked?.source, source)) {
+                    throw new FrozenLockfileError(`${item.name} for target ${target} resolves to version ${assetVersion} which differs from the lockfile.`,
+                        String(what), target);
+                }
+            }
 
-            await fs.writeFile(versionFilePath, assetVersion ?? '', { encoding: 'utf8' });
-            await fs.writeFile(targetFilePath, target, { encoding: 'utf8' });
+            // Skip tools already installed at the resolved version
+            const resolved = asset;
+            const skipInstalled = async (installedVersion: string | undefined, installedTarget: string | undefined) => {
+                if ((options?.force === true) || (assetVersion === undefined) || (installedVersion !== assetVersion || installedTarget !== target)) {
+                    return false;
+                }
+                this.logger.info(`Already downloaded ${item.name} version ${installedVersion} for target ${target}.`);
+                if (!options.frozenLockfile && (locked?.version !== assetVersion || locked.source?.integrity === undefined)) {
+                    // Nothing has been fetched, the integrity is known from the install receipt only
+                    const source = await resolved.source ?? {};
+                    const receipt = await readReceipt(destination);
+                    const integrity = source.integrity ?? (isSameSource(receipt?.source, source) ? receipt?.source.integrity : undefined);
+                    lockfile?.set(String(what), target, { version: assetVersion, source: { ...source, ...(integrity !== undefined ? { integrity } : {}) } });
+                }
+                return true;
+            };
+            if (await skipInstalled(currentVersion, currentTarget)) {
+                return result('skipped', assetVersion, await asset.source);
+            }
+
+            // Other processes, e.g. postinstall scripts of a monorepo, may install to the same destination
+            const destinationLock = new FileLock(`${destination}.lock`, { logger: this.logger, signal: options.signal });
+            await destinationLock.acquire();
+            try {
+                if (await skipInstalled(await maybeReadFile(versionFilePath), await maybeReadFile(targetFilePath))) {
+                    return result('skipped', assetVersion, await asset.source);
+                }
+                installed = await this.install(what, target, asset, assetVersion, destination, options);
+            } finally {
+                await destinationLock.release();
+            }
         } catch (error) {
-            console.error(`Failed to download ${item.name}:`, error);
+            if (item.optional) {
+                this.logger.warn(`Failed to download optional ${item.name}:`, error);
+            } else {
+                this.logger.error(`Failed to download ${item.name}:`, error);
+            }
+            if (typeof error === 'object' && error !== null) {
+                const source = await Promise.resolve(asset?.source).catch(() => undefined);
+                this.failures.set(error, { version: assetVersion ?? version, ...(source !== undefined ? { source } : {}) });
+            }
             throw error;
+        } finally {
+            await asset?.dispose();
+        }
+
+        this.logger.progress?.({ type: 'done', tool: String(what), target, destination });
+        return result('downloaded', assetVersion, installed.source, installed.cache);
+    }
+
+    // Install the asset of a tool into its destination, replacing a previous install
+    protected async install(what: keyof T, target: VsceTarget, asset: Asset, assetVersion: string | undefined, destination: string, options: DownloadOptions) {
+        let cacheStatus: CacheStatus | undefined;
+        const item = this.downloadables[what];
+        const lockfile = await this.getLockfile();
+        const locked = lockfile?.get(String(what), target);
+
+        // Assets sharing a cache entry are fetched one after the other,
+        // the latter ones reuse the cached files of the first one.
+        const cacheKey = this.cacheDir !== undefined ? await asset.cacheId : undefined;
+        // The tool is staged next to its destination and only swapped into place once complete,
+        // so that a failing download keeps the previously installed version.
+        const staging = stagingDirectory(destination);
+        try {
+            await this.cacheLocks.run(cacheKey, async () => {
+                const fetch = async () => {
+                    await ensureDirectory(staging);
+                    await asset.withCacheDir(this.cacheDir).copyTo(staging, options.signal);
+                };
+                if (cacheKey !== undefined && this.cacheDir !== undefined) {
+                    // Other processes may share the cache directory
+                    const cache = new DownloadCache(this.cacheDir);
+                    await cache.lock(cacheKey, async () => {
+                        cacheStatus = await cache.has(cacheKey) ? 'hit' : 'miss';
+                        await fetch();
+                    }, { logger: this.logger, signal: options.signal });
+                    await cache.touch(cacheKey);
+                } else {
+                    await fetch();
+                }
+            });
+
+            const source = await asset.source ?? {};
+            // Entries recorded without integrity only pin the version and origin
+            const lockedIntegrity = locked?.source?.integrity;
+            if (options.frozenLockfile && lockedIntegrity !== undefined && lockedIntegrity !== source.integrity) {
+                throw new IntegrityError(`Integrity mismatch for ${item.name} for target ${target}: expected ${lockedIntegrity}, got ${source.integrity}.`,
+                    lockedIntegrity, source.integrity);
+            }
+
+            await item.postInstall?.(staging, target);
+            if (item.verify) {
+                if (target === hostTarget()) {
+                    this.logger.debug(`Verifying ${item.name} for target ${target} ...`);
+                    await item.verify(staging, target);
+                } else {
+                    this.logger.debug(`Skipping verification of ${item.name} for target ${target} on host ${hostTarget()}.`);
+                }
+            }
+
+            await writeReceipt(staging, {
+                receiptVersion: RECEIPT_VERSION,
+                tool: String(what),
+                ...(assetVersion !== undefined ? { version: assetVersion } : {}),
+                target,
+                source,
+                installed: new Date().toISOString(),
+                files: await createManifest(staging),
+            });
+            await fs.writeFile(path.join(staging, 'version.txt'), assetVersion ?? '', { encoding: 'utf8' });
+            await fs.writeFile(path.join(staging, 'target.txt'), target, { encoding: 'utf8' });
+            await replaceDirectory(staging, destination);
+
+            if (!options.frozenLockfile) {
+                lockfile?.set(String(what), target, assetVersion !== undefined ? { version: assetVersion, source } : { source });
+            }
+            return { source, cache: cacheStatus };
+        } finally {
+            await ensureNoDirectory(staging);
+        }
+    }
+
+    public async plan(what: keyof T, target: VsceTarget, options: DownloadOptions = {}): Promise<PlanEntry> {
+        const item = this.downloadables[what];
+        const destination = this.toolDestination(item, target);
+        const installedVersion = await maybeReadFile(path.join(destination, 'version.txt'));
+        const currentTarget = await maybeReadFile(path.join(destination, 'target.txt'));
+        // Assets without version are installed with an empty version file
+        const currentVersion = installedVersion || undefined;
+        const entry = { tool: String(what), target, destination, currentVersion };
+
+        const version = (await this.toolVersions())[what];
+        const asset = await item.getAsset?.(target, version);
+        if (!asset) {
+            return { ...entry, resolvedVersion: undefined, cacheId: undefined, source: undefined, available: false, action: 'skip' };
+        }
+
+        try {
+            asset.withDownloadOptions?.({ ...this.downloadOptions, logger: this.logger });
+            const resolvedVersion = await asset.version;
+            const cacheId = await asset.cacheId;
+            const source = await asset.source;
+            let action: PlanAction = 'update';
+            if (installedVersion === undefined) {
+                action = 'download';
+            } else if ((options.force !== true) && (currentTarget === target)
+                && (resolvedVersion !== undefined ? currentVersion === resolvedVersion : await isInstalledFrom(destination, source))) {
+                action = 'skip';
+            }
+            return { ...entry, resolvedVersion, cacheId, source, available: true, action };
         } finally {
             await asset.dispose();
         }
+    }
+
+    protected async planAll(tools: (keyof T)[], targets: VsceTarget[], queue: WorkQueue, options: DownloadOptions) {
+        return Promise.all(
+            targets.flatMap(target => tools.map(tool => queue.run(() => this.plan(tool, target, options))))
+        );
+    }
+
+    // Print the plan for all tools and targets as table
+    protected async printPlan(tools: (keyof T)[], targets: VsceTarget[], queue: WorkQueue, options: DownloadOptions) {
+        const entries = await this.planAll(tools, targets, queue, options);
+        const rows = entries.map(e => [e.tool, e.target, e.currentVersion ?? '-', e.resolvedVersion ?? '-', describeSource(e.source), e.action]);
+        process.stdout.write(`${formatTable([['Tool', 'Target', 'Current', 'Resolved', 'Source', 'Action'], ...rows])}\n`);
+    }
 
-        console.log(`Copied ${item.name} to ${destination}...`);
+    // Print the installation status of all tools and targets, sets a non-zero exit code if any is missing or stale
+    protected async printCheck(tools: (keyof T)[], targets: VsceTarget[], queue: WorkQueue, json: boolean) {
+        const entries = (await this.planAll(tools, targets, queue, {})).map(e => ({
+            tool: e.tool,
+            target: e.target,
+            destination: e.destination,
+            currentVersion: e.currentVersion,
+            resolvedVersion: e.resolvedVersion,
+            status: CHECK_STATUS[e.action],
+        }));
+        const ok = entries.every(e => e.status === 'ok');
+        if (json) {
+            process.stdout.write(`${JSON.stringify({ ok, tools: entries }, null, 2)}\n`);
+        } else {
+            const rows = entries.map(e => [e.tool, e.target, e.currentVersion ?? '-', e.resolvedVersion ?? '-', e.status]);
+            process.stdout.write(`${formatTable([['Tool', 'Target', 'Current', 'Resolved', 'Status'], ...rows])}\n`);
+        }
+        if (!ok) {
+            const failed = entries.filter(e => e.status !== 'ok').length;
+            this.logger.error(`${failed} tool(s) missing or stale in ${this.targetDir}.`);
+            process.exitCode = 1;
+        }
     }
 
-    public async run(argv = hideBin(process.argv)): Promise<void> {
+    // Verify a single installed tool against its receipt
+    protected async verifyInstall(what: keyof T, target: VsceTarget) {
+        const destination = this.toolDestination(this.downloadables[what], target);
+        const receipt = await readReceipt(destination);
+        if (receipt === undefined) {
+            const installed = await maybeReadFile(path.join(destination, 'version.txt')) !== undefined;
+            return { status: installed ? 'unverified' : 'not-installed', modified: [], missing: [], extra: [] } as const;
+        }
+        const diff = await diffManifest(destination, receipt.files);
+        const modified = diff.modified.length + diff.missing.length + diff.extra.length > 0;
+        return { status: modified ? 'modified' : 'ok', ...diff } as const;
+    }
+
+    // Print the verification status of all tools and targets, sets a non-zero exit code if any is modified
+    protected async printVerify(tools: (keyof T)[], targets: VsceTarget[], queue: WorkQueue, repair: boolean) {
+        const entries = await Promise.all(targets.flatMap(target => tools.map(tool => queue.run(async () => {
+            const result = await this.verifyInstall(tool, target);
+            for (const [kind, files] of Object.entries({ modified: result.modified, missing: result.missing, extra: result.extra })) {
+                files.forEach(file => this.logger.info(`${String(tool)} for target ${target}: ${kind} ${file}`));
+            }
+            let status: VerifyStatus = result.status;
+            if (status === 'modified' && repair) {
+                // The download logs its failure, continue verifying the other tools
+                status = await this.download(tool, target, { force: true }).then(() => 'repaired', () => 'repair-failed');
+            }
+            return { tool: String(tool), target, ...result, status };
+        }))));
+        const rows = entries.map(e => [e.tool, e.target, String(e.modified.length), String(e.missing.length), String(e.extra.length), e.status]);
+        process.stdout.write(`${formatTable([['Tool', 'Target', 'Modified', 'Missing', 'Extra', 'Status'], ...rows])}\n`);
+        const failed = entries.filter(e => e.status === 'modified').length;
+        if (failed > 0) {
+            this.logger.error(`${failed} tool(s) modified in ${this.targetDir}, use --repair to reinstall.`);
+            process.exitCode = 1;
+        }
+        const repairFailed = entries.filter(e => e.status === 'repair-failed').length;
+        if (repairFailed > 0) {
+            this.logger.error(`${repairFailed} modified tool(s) could not be repaired in ${this.targetDir}.`);
+            process.exitCode = 1;
+        }
+    }
+
+    // Run a cache management command, i.e., list, prune or clear
+    protected async manageCache(command: string, options: { maxSize?: number; olderThan?: number }) {
+        if (this.cacheDir === undefined) {
+            throw new Error('No cache directory configured.');
+        }
+        const cache = new DownloadCache(this.cacheDir);
+        if (command === 'list') {
+            const entries = await cache.list();
+            const rows = entries.map(e => [e.cacheId, formatSize(e.size), e.lastAccess]);
+            const total = entries.reduce((sum, e) => sum + e.size, 0);
+            process.stdout.write(`${formatTable([['Cache ID', 'Size', 'Last access'], ...rows])}\n`);
+            process.stdout.write(`${entries.length} entries, ${formatSize(total)} in ${this.cacheDir}\n`);
+        } else {
+            const lockOptions = { logger: this.logger };
+            const removed = command === 'prune' ? await cache.prune(options, lockOptions) : await cache.clear(lockOptions);
+            const total = removed.reduce((sum, e) => sum + e.size, 0);
+            this.logger.info(`Removed ${removed.length} cache entries, ${formatSize(total)} from ${this.cacheDir}.`);
+        }
+    }
+
+    // Download a tool, reporting a failure as result
+    protected async tryDownload(what: keyof T, target: VsceTarget, options: DownloadOptions): Promise<DownloadResult> {
+        const start = Date.now();
+        try {
+            return await this.download(what, target, options);
+        } catch (error) {
+            const destination = this.toolDestination(this.downloadables[what], target);
+            const { version, ...source } = (typeof error === 'object' && error !== null ? this.failures.get(error) : undefined) ?? { version: undefined };
+            return { tool: String(what), target, version, status: 'failed', destination, ...source, duration: Date.now() - start, error };
+        }
+    }
+
+    // Create the machine-readable report of all downloads
+    protected report(targets: VsceTarget[], results: DownloadResult[]): DownloadReport {
+        const tools = results.map(({ error, ...result }) => {
+            const item = this.downloadables[result.tool];
+            const code = (error as { code?: unknown } | undefined)?.code;
+            return {
+                ...result,
+                name: item.name,
+                optional: item.optional === true,
+                ...(error !== undefined ? { error: {
+                    name: error instanceof Error ? error.name : 'Error',
+                    message: error instanceof Error ? error.message : String(error),
+                    ...(typeof code === 'string' ? { code } : {}),
+                } } : {}),
+            };
+        });
+        return { ok: tools.every(t => t.status !== 'failed' || t.optional), host: hostTarget(), targets, tools };
+    }
+
+    // Print the summary of all downloads, sets a non-zero exit code if any required tool failed
+    protected printSummary(results: DownloadResult[]) {
+        const rows = results.map(r => [r.tool, r.target, r.version ?? '-', r.status, `${(r.duration / 1000).toFixed(1)}s`]);
+        this.logger.info(formatTable([['Tool', 'Target', 'Version', 'Status', 'Duration'], ...rows]));
+        const failed = results.filter(r => r.status === 'failed');
+        const optional = failed.filter(r => this.downloadables[r.tool]?.optional);
+        if (optional.length > 0) {
+            this.logger.warn(`${optional.length} optional tool(s) failed to download.`);
+        }
+        if (failed.length > optional.length) {
+            this.logger.error(`${failed.length - optional.length} tool(s) failed to download.`);
+            process.exitCode = 1;
+        }
+        return failed.length === optional.length;
+    }
+
+    public async run(argv = hideBin(process.argv)): Promise<DownloadResult[]> {
         const args = await this.parser().parse(argv);
-        const results = [] as Promise<void>[];
+        const downloads = [] as Promise<DownloadResult>[];
+        const queue = new WorkQueue(args.jobs);
+        const targets = args.target.includes('all') ? [...VSCE_TARGETS] : [...new Set(args.target as VsceTarget[])];
         this.targetDir = args.dest;
         this.cacheDir = args.cache;
-        const options: DownloadOptions = (args);
-        for (const tool of new Set(args.tools)) {
-            results.push(this.download(tool, args.target, options));
+        this.layout = args.layout ?? (targets.length > 1 ? TARGET_LAYOUT : DEFAULT_LAYOUT);
+        this.withLockfile(args.lockfile);
+        this.withVersions(Object.fromEntries(args.set.map(assignment => {
+            const index = assignment.indexOf('=');
+            return [assignment.slice(0, index), assignment.slice(index + 1)];
+        })) as Partial<Record<keyof T, string>>);
+        if (this.logger instanceof ConsoleLogger && (args.quiet || args.verbose)) {
+            this.logger.level = args.quiet ? 'error' : 'debug';
+        } else if (this.logger instanceof ConsoleLogger && args.json && LOG_LEVELS.indexOf(this.logger.level) > LOG_LEVELS.indexOf('warn')) {
+            // Info messages are written to stdout, which is reserved for the JSON report
+            this.logger.level = 'warn';
+        }
+        this.downloadOptions = mergeDownloadOptions(this.downloadOptions, {
+            ...(args.retries !== undefined ? { retry: { retries: args.retries } } : {}),
+            ...(args.timeout !== undefined ? { connectTimeout: args.timeout, idleTimeout: args.timeout } : {}),
+        });
+        if (args._[0] === 'plan') {
+            await this.printPlan([...new Set(args.tools)], targets, queue, args);
+            return [];
+        }
+        if (args._[0] === 'check') {
+            await this.printCheck([...new Set(args.tools)], targets, queue, args.json === true);
+            return [];
+        }
+        if (args._[0] === 'verify') {
+            await this.printVerify([...new Set(args.tools)], targets, queue, args.repair === true);
+            return [];
+        }
+        if (args._[0] === 'cache') {
+            await this.manageCache(String(args._[1]), args);
+            return [];
+        }
+
+        // Without a cache, a temporary one lets targets share common downloads
+        const runCacheDir = (this.cacheDir === undefined && targets.length > 1) ? tempfile() : undefined;
+        this.cacheDir ??= runCacheDir;
+
+        // Abort in-flight downloads on Ctrl+C or termination, so that temporary files are cleaned up
+        const controller = new AbortController();
+        const abort = (signal: NodeJS.Signals) => {
+            this.logger.warn(`Received ${signal}, aborting downloads ...`);
+            controller.abort(new Error(`Downloads aborted by ${signal}.`));
+        };
+        process.once('SIGINT', abort);
+        process.once('SIGTERM', abort);
+
+        try {
+            const options: DownloadOptions = { ...args, signal: controller.signal };
+            for (const target of targets) {
+                for (const tool of new Set(args.tools)) {
+                    downloads.push(queue.run(() => this.tryDownload(tool, target, options)));
+                }
+            }
+            // Wait for all downloads to complete before cleaning up
+            const results = await Promise.all(downloads);
+            controller.signal.throwIfAborted();
+            const ok = this.printSummary(results);
+            if (args.json || args.output !== undefined) {
+                const report = `${JSON.stringify(this.report(targets, results), null, 2)}\n`;
+                if (args.output !== undefined) {
+                    await fs.mkdir(path.dirname(args.output), { recursive: true });
+                    await fs.writeFile(args.output, report, { encoding: 'utf8' });
+                }
+                if (args.json) {
+                    process.stdout.write(report);
+                }
+            }
+            if (ok && !options.frozenLockfile) {
+                await this.saveLockfile();
+            }
+            return results;
+        } finally {
+            process.off('SIGINT', abort);
+            process.off('SIGTERM', abort);
+            if (runCacheDir !== undefined) {
+                await ensureNoDirectory(runCacheDir);
+                this.cacheDir = args.cache;
+            }
         }
-        await Promise.all(results);
     }
 
 }
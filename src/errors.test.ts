@@ -0,0 +1,56 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { faker } from '@faker-js/faker';
+import { AssetNotFoundError, DownloaderError, ERROR_CODES, ExtractionError, FrozenLockfileError, HttpError, IntegrityError, ReleaseNotFoundError } from './errors.ts';
+
+describe('errors', () => {
+
+    it('carries a distinct code and the class name', () => {
+        const errors: DownloaderError[] = [
+            new HttpError(faker.internet.url(), 404),
+            new ReleaseNotFoundError(faker.lorem.word(), faker.lorem.word(), 'v1.0.0'),
+            new AssetNotFoundError('missing', faker.system.fileName()),
+            new ExtractionError('failed', faker.system.filePath(), '.zip'),
+            new IntegrityError('mismatch', 'sha256-abc'),
+            new FrozenLockfileError('not locked', faker.lorem.word(), 'linux-x64'),
+        ];
+
+        expect(errors.map(error => error.code)).toEqual(ERROR_CODES);
+        for (const error of errors) {
+            expect(error).toBeInstanceOf(DownloaderError);
+            expect(error).toBeInstanceOf(Error);
+            expect(error.name).toBe(error.constructor.name);
+        }
+    });
+
+    it('formats HttpError with status, url and headers', () => {
+        const url = faker.internet.url();
+        const error = new HttpError(url, 503, 'Service Unavailable', { 'retry-after': '5' });
+
+        expect(error.message).toBe(`Status Code: 503\n${url}: Service Unavailable\n${JSON.stringify({ 'retry-after': '5' }, null, 2)}`);
+        expect(error).toMatchObject({ status: 503, url, statusMessage: 'Service Unavailable' });
+    });
+
+    it('keeps the cause of ExtractionError', () => {
+        const cause = new Error('unexpected end of archive');
+        const error = new ExtractionError('failed', 'archive.tar.gz', '.gz', { cause });
+
+        expect(error.cause).toBe(cause);
+        expect(error.format).toBe('.gz');
+    });
+});
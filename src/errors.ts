@@ -0,0 +1,177 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { IncomingHttpHeaders } from 'node:http';
+import type { VsceTarget } from './downloader.ts';
+
+/**
+ * Machine-readable codes of the errors thrown by the downloader.
+ */
+export const ERROR_CODES = [
+    'ERR_HTTP',
+    'ERR_RELEASE_NOT_FOUND',
+    'ERR_ASSET_NOT_FOUND',
+    'ERR_EXTRACTION',
+    'ERR_INTEGRITY',
+    'ERR_FROZEN_LOCKFILE',
+] as const;
+export type ErrorCode = typeof ERROR_CODES[number];
+
+/**
+ * Base class of all errors thrown by the downloader, identified by a stable code.
+ */
+export abstract class DownloaderError extends Error {
+    public abstract readonly code: ErrorCode;
+
+    constructor(message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = new.target.name;
+    }
+}
+
+/**
+ * Request answered with an unexpected HTTP status, by a download server or the GitHub API.
+ */
+export class HttpError extends DownloaderError {
+    public readonly code = 'ERR_HTTP';
+
+    /**
+     * Creates an instance of HttpError.
+     * @param url The requested URL.
+     * @param status The HTTP status code of the response.
+     * @param statusMessage The HTTP status message of the response, if any.
+     * @param headers The headers of the response.
+     * @param options The cause of the error, if any.
+     */
+    constructor(
+        public readonly url: string,
+        public readonly status: number,
+        public readonly statusMessage: string | undefined = undefined,
+        public readonly headers: IncomingHttpHeaders = {},
+        options?: ErrorOptions,
+    ) {
+        super(`Status Code: ${status}\n${url}: ${statusMessage ?? ''}\n${JSON.stringify(headers, null, 2)}`, options);
+    }
+}
+
+/**
+ * No GitHub release matches the requested tag.
+ */
+export class ReleaseNotFoundError extends DownloaderError {
+    public readonly code = 'ERR_RELEASE_NOT_FOUND';
+
+    /**
+     * Creates an instance of ReleaseNotFoundError.
+     * @param owner The owner (or org) of the repository.
+     * @param repo The name of the repository.
+     * @param tag The requested tag range or tag pattern.
+     * @param searchLimit The number of latest releases searched, if the search stopped before the oldest release.
+     */
+    constructor(
+        public readonly owner: string,
+        public readonly repo: string,
+        public readonly tag: string,
+        public readonly searchLimit: number | undefined = undefined,
+    ) {
+        super(`Could not find release for tag ${tag} in ${owner}/${repo}`
+            + (searchLimit !== undefined ? `, searched the latest ${searchLimit} releases only (see maxReleases)` : ''));
+    }
+}
+
+/**
+ * A release asset, checksum asset or workflow artifact does not exist.
+ */
+export class AssetNotFoundError extends DownloaderError {
+    public readonly code = 'ERR_ASSET_NOT_FOUND';
+
+    /**
+     * Creates an instance of AssetNotFoundError.
+     * @param message The error message.
+     * @param assetName The name (or pattern) of the missing asset.
+     */
+    constructor(
+        message: string,
+        public readonly assetName: string,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * An archive could not be extracted.
+ */
+export class ExtractionError extends DownloaderError {
+    public readonly code = 'ERR_EXTRACTION';
+
+    /**
+     * Creates an instance of ExtractionError.
+     * @param message The error message.
+     * @param archive The path of the archive.
+     * @param format The archive format, i.e., the file extension such as .zip or .gz.
+     * @param options The cause of the error, if any.
+     */
+    constructor(
+        message: string,
+        public readonly archive: string,
+        public readonly format: string,
+        options?: ErrorOptions,
+    ) {
+        super(message, options);
+    }
+}
+
+/**
+ * A file does not match its expected integrity.
+ */
+export class IntegrityError extends DownloaderError {
+    public readonly code = 'ERR_INTEGRITY';
+
+    /**
+     * Creates an instance of IntegrityError.
+     * @param message The error message.
+     * @param expected The expected integrity, if known.
+     * @param actual The actual integrity, if known.
+     */
+    constructor(
+        message: string,
+        public readonly expected: string | undefined,
+        public readonly actual: string | undefined = undefined,
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * A tool cannot be downloaded with frozen lockfile, because it is not recorded in the lockfile
+ * or resolves to a different version or source.
+ */
+export class FrozenLockfileError extends DownloaderError {
+    public readonly code = 'ERR_FROZEN_LOCKFILE';
+
+    /**
+     * Creates an instance of FrozenLockfileError.
+     * @param message The error message.
+     * @param tool The tool to be downloaded.
+     * @param target The target to be downloaded.
+     */
+    constructor(
+        message: string,
+        public readonly tool: string,
+        public readonly target: VsceTarget,
+    ) {
+        super(message);
+    }
+}
@@ -62,7 +62,7 @@ describe('ArchiveFileAsset', () => {
             const result = await asset.copyTo(targetDir);
 
             expect(result).toBe(targetDir);
-            expect(subjectMock.copyTo).toHaveBeenCalledWith();
+            expect(subjectMock.copyTo).toHaveBeenCalledWith(undefined, undefined);
 
             await asset.dispose();
             expect(fs.rm).not.toHaveBeenCalledWith(expect.any(String), { force: true, recursive: true });
@@ -85,7 +85,7 @@ describe('ArchiveFileAsset', () => {
             const result = await asset.copyTo();
 
             expect(result).toBeDefined();
-            expect(subjectMock.copyTo).toHaveBeenCalledWith();
+            expect(subjectMock.copyTo).toHaveBeenCalledWith(undefined, undefined);
 
             await asset.dispose();
             expect(fs.rm).toHaveBeenCalledWith(result, { force: true, recursive: true });
@@ -227,6 +227,21 @@ describe('WebFileAsset', () => {
             expect(fs.rm).toHaveBeenCalledWith(path.dirname(result), { force: true, recursive: true });
         });
 
+        it('fails download with integrity mismatch', async () => {
+            const targetDir = faker.system.directoryPath();
+            const filename = faker.system.fileName();
+            const url = new URL(filename, faker.internet.url());
+            const content = faker.lorem.paragraph();
+            const asset = new WebFileAsset(url, undefined, undefined, {}, { integrity: 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=' });
+
+            nock(url.origin)
+                .get(url.pathname)
+                .reply(200, content);
+
+            await expect(asset.copyTo(targetDir)).rejects.toThrow('Integrity check failed');
+            expect(vol.toJSON()[toPosix(path.join(targetDir, filename))]).toBeUndefined();
+        });
+
     });
 
 });
@@ -270,6 +285,41 @@ describe('LocalFileAsset', () => {
             expect(vol.toJSON()[toPosix(expectedResult)]).toBe(content);
         });
 
+        it('records integrity of copied file', async () => {
+            const targetDir = faker.system.directoryPath();
+            const filepath = faker.system.filePath();
+            vol.fromJSON({ [filepath]: '' });
+
+            const integrity = 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=';
+            const asset = new LocalFileAsset(filepath, undefined, { integrity });
+
+            await asset.copyTo(targetDir);
+
+            expect(asset.source).toEqual(expect.objectContaining({ integrity }));
+        });
+
+        it('copies file with given version', async () => {
+            const targetDir = faker.system.directoryPath();
+            const filepath = faker.system.filePath();
+            vol.fromJSON({ [filepath]: '' });
+
+            const asset = new LocalFileAsset(filepath, undefined, { version: '1.0.0' });
+
+            expect(asset.version).toBe('1.0.0');
+            await expect(asset.copyTo(targetDir)).resolves.toBe(targetDir);
+        });
+
+        it('fails copy with integrity mismatch', async () => {
+            const targetDir = faker.system.directoryPath();
+            const filepath = faker.system.filePath();
+            vol.fromJSON({ [filepath]: faker.lorem.paragraph() });
+
+            const asset = new LocalFileAsset(filepath, undefined, { integrity: 'sha256-47DEQpj8HBSa+/TImW+5JCeuQeRkm5NMpJWZG3hSuFU=' });
+
+            await expect(asset.copyTo(targetDir)).rejects.toThrow('Integrity check failed');
+            expect(vol.toJSON()[toPosix(path.join(targetDir, path.basename(filepath)))]).toBeUndefined();
+        });
+
     });
 
 });
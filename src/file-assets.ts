@@ -15,9 +15,11 @@
  */
 
 import { AbstractAsset, Asset } from './downloader.ts';
+import { DownloadFileOptions } from './file-download.ts';
 import path from 'node:path';
 import { OutgoingHttpHeaders } from 'node:http';
 import fs from 'node:fs/promises';
+import { pathToFileURL } from 'node:url';
 
 /**
  * Asset to be extracted from an archive file.
@@ -42,17 +44,45 @@ export class ArchiveFileAsset extends AbstractAsset {
         return super.withCacheDir(cacheDir);
     }
 
+    public withDownloadOptions(options: DownloadFileOptions): Asset {
+        this.subject.withDownloadOptions?.(options);
+        return super.withDownloadOptions(options);
+    }
+
     public get version() {
         return this.subject.version;
     }
 
-    public async copyTo(dest?: string) {
-        const archiveFile = await this.subject.copyTo();
-        return this.extractArchive(archiveFile, dest, { strip: this.strip });
+    public get cacheId() {
+        return this.subject.cacheId;
+    }
+
+    public get source() {
+        return this.subject.source;
+    }
+
+    public async copyTo(dest?: string, signal?: AbortSignal) {
+        const archiveFile = await this.subject.copyTo(undefined, signal);
+        return this.extractArchive(archiveFile, dest, { strip: this.strip, signal });
     }
 
 }
 
+/** Options for file assets */
+type FileAssetOptions = {
+    /** Expected SRI-style integrity of the file, e.g. sha256-<base64 digest>. */
+    integrity?: string;
+};
+
+/** Options for local file assets */
+type LocalFileAssetOptions = FileAssetOptions & {
+    /** The version of the file, if applicable. */
+    version?: string;
+};
+
+/** Options for web file assets */
+type WebFileAssetOptions = FileAssetOptions & DownloadFileOptions;
+
 /**
  * Asset that represents a file available at a URL.
  */
@@ -65,12 +95,14 @@ export class WebFileAsset extends AbstractAsset {
      * @param filename The filename to save the downloaded file as. If not provided, the filename will be derived from the URL.
      * @param _version The version of the file, if applicable.
      * @param headers Additional HTTP headers to include in the request when downloading the file, e.g. for authentication.
+     * @param options Options for the asset.
      */
     constructor(
         protected readonly url: URL,
         protected readonly filename?: string,
         protected readonly _version?: string,
         protected readonly headers: OutgoingHttpHeaders = {},
+        protected readonly options: WebFileAssetOptions = {},
     ) {
         super();
     }
@@ -85,10 +117,14 @@ export class WebFileAsset extends AbstractAsset {
         return path.normalize(path.join(this.url.host, dirname, basename));
     }
 
-    public async copyTo(dest?: string) {
+    get source() {
+        return this.withFetchedIntegrity({ url: this.url.toString() });
+    }
+
+    public async copyTo(dest?: string, signal?: AbortSignal) {
         dest = await this.mkDest(dest);
         const destFile = path.join(dest, this.filename ?? path.basename(this.url.pathname));
-        return this.downloadFile(this.url, destFile, this.headers);
+        return this.downloadFile(this.url, destFile, this.headers, { ...this.options, signal: signal ?? this.options.signal });
     }
 
 }
@@ -103,17 +139,31 @@ export class LocalFileAsset extends AbstractAsset {
      * If the file is an archive, consider chaining with `ArchiveFileAsset`.
      * @param filepath The path to the local file.
      * @param targetName The name to use for the file when copying, if different from the original.
+     * @param options Options for the asset.
      */
     constructor(
         protected readonly filepath: string,
         protected readonly targetName?: string,
+        protected readonly options: LocalFileAssetOptions = {},
     ) {
         super();
     }
 
-    public async copyTo(dest?: string) {
+    get version() {
+        return this.options.version;
+    }
+
+    get source() {
+        return this.withFetchedIntegrity({ url: pathToFileURL(path.resolve(this.filepath)).toString() });
+    }
+
+    public async copyTo(dest?: string, signal?: AbortSignal) {
+        signal?.throwIfAborted();
         dest = await this.mkDest(dest);
-        await fs.copyFile(this.filepath, path.join(dest, this.targetName ?? path.basename(this.filepath)));
+        const destFile = path.join(dest, this.targetName ?? path.basename(this.filepath));
+        await fs.copyFile(this.filepath, destFile);
+        await this.verifyIntegrity(destFile, this.options.integrity);
+        await this.recordIntegrity(destFile);
         return dest;
     }
 
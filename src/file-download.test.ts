@@ -1,5 +1,5 @@
 /**
- * Copyright 2024 Arm Limited
+ * Copyright 2024-2026 Arm Limited
  *
  * Licensed under the Apache License, Version 2.0 (the "License");
  * you may not use this file except in compliance with the License.
@@ -19,6 +19,7 @@ import * as fs from 'fs';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { downloadFile } from './file-download.ts';
+import { HttpError } from './errors.ts';
 import { faker } from '@faker-js/faker';
 
 import { describe, it, expect, vitest, beforeAll, beforeEach } from 'vitest';
@@ -86,5 +87,212 @@ describe('downloadFile', () => {
         const downloadPromise = downloadFile(`${url}/${fileName}`, 'some-directory');
 
         await expect(downloadPromise).rejects.toThrow('Status Code: 404');
+        await expect(downloadPromise).rejects.toBeInstanceOf(HttpError);
+        await expect(downloadPromise).rejects.toMatchObject({ code: 'ERR_HTTP', status: 404, url: `${url}/${fileName}` });
+    });
+
+    it('retries server errors and network errors', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        const fileContents = faker.lorem.paragraph();
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(502)
+            .get(`/${fileName}`)
+            .replyWithError(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }))
+            .get(`/${fileName}`)
+            .reply(200, fileContents);
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation, {}, { retry: { minDelay: 1 } });
+
+        const data = fs.readFileSync(downloadLocation, 'utf8');
+        expect(data).toBe(fileContents);
+    });
+
+    it('honours Retry-After for rate limits', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        const fileContents = faker.lorem.paragraph();
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(429, undefined, { 'retry-after': '0' })
+            .get(`/${fileName}`)
+            .reply(200, fileContents);
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation, {}, { retry: { minDelay: 60000 } });
+
+        const data = fs.readFileSync(downloadLocation, 'utf8');
+        expect(data).toBe(fileContents);
+    });
+
+    it('caps Retry-After by the maximum delay', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        const fileContents = faker.lorem.paragraph();
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(503, undefined, { 'retry-after': '86400' })
+            .get(`/${fileName}`)
+            .reply(200, fileContents);
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation, {}, { retry: { minDelay: 1, maxDelay: 1 } });
+
+        const data = fs.readFileSync(downloadLocation, 'utf8');
+        expect(data).toBe(fileContents);
+    });
+
+    it('gives up after the configured number of retries', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        nock(url)
+            .get(`/${fileName}`)
+            .times(2)
+            .reply(503);
+
+        const downloadPromise = downloadFile(`${url}/${fileName}`, join(tmpDirectory, fileName), {}, { retry: { retries: 1, minDelay: 1 } });
+
+        await expect(downloadPromise).rejects.toThrow('Status Code: 503');
+        expect(nock.isDone()).toBe(true);
+    });
+
+    it('leaves no incomplete file at the output location', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(404);
+
+        await expect(downloadFile(`${url}/${fileName}`, downloadLocation)).rejects.toThrow('Status Code: 404');
+
+        expect(fs.existsSync(downloadLocation)).toBe(false);
+    });
+
+    it('resumes a partial download with a range request', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        fs.writeFileSync(`${downloadLocation}.part`, 'Hello, ');
+        fs.writeFileSync(`${downloadLocation}.part.json`, JSON.stringify({ url: `${url}/${fileName}`, validator: '"etag"' }));
+        nock(url)
+            .get(`/${fileName}`)
+            .matchHeader('range', 'bytes=7-')
+            .matchHeader('if-range', '"etag"')
+            .reply(206, 'world!', { 'content-range': 'bytes 7-12/13', etag: '"etag"' });
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation);
+
+        expect(fs.readFileSync(downloadLocation, 'utf8')).toBe('Hello, world!');
+        expect(fs.existsSync(`${downloadLocation}.part`)).toBe(false);
+        expect(fs.existsSync(`${downloadLocation}.part.json`)).toBe(false);
+    });
+
+    it('restarts a partial download if the server sends the full file', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        fs.writeFileSync(`${downloadLocation}.part`, 'Stale ');
+        fs.writeFileSync(`${downloadLocation}.part.json`, JSON.stringify({ url: `${url}/${fileName}`, validator: '"old"' }));
+        nock(url)
+            .get(`/${fileName}`)
+            .matchHeader('range', 'bytes=6-')
+            .reply(200, 'Hello, world!', { etag: '"new"' });
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation);
+
+        expect(fs.readFileSync(downloadLocation, 'utf8')).toBe('Hello, world!');
+    });
+
+    it('restarts a partial download if the range is not satisfiable', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        fs.writeFileSync(`${downloadLocation}.part`, 'Hello, world! Too long');
+        fs.writeFileSync(`${downloadLocation}.part.json`, JSON.stringify({ url: `${url}/${fileName}`, validator: '"etag"' }));
+        nock(url)
+            .get(`/${fileName}`)
+            .matchHeader('range', 'bytes=22-')
+            .reply(416)
+            .get(`/${fileName}`)
+            .reply(200, 'Hello, world!');
+
+        await downloadFile(`${url}/${fileName}`, downloadLocation);
+
+        expect(fs.readFileSync(downloadLocation, 'utf8')).toBe('Hello, world!');
+        expect(nock.isDone()).toBe(true);
+    });
+
+    it('reports download progress to the given logger', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const logger = { error: vitest.fn(), warn: vitest.fn(), info: vitest.fn(), debug: vitest.fn(), progress: vitest.fn() };
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(200, 'Hello, world!', { 'content-length': '13' });
+
+        await downloadFile(`${url}/${fileName}`, join(tmpDirectory, fileName), {}, { logger });
+
+        expect(logger.info).toHaveBeenCalledWith(`Downloading file from ${url}/${fileName} ...`);
+        expect(logger.progress).toHaveBeenLastCalledWith({ type: 'download', url: `${url}/${fileName}`, bytes: 13, total: 13 });
+    });
+
+    it('times out if the server does not respond', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        nock(url)
+            .get(`/${fileName}`)
+            .delay(500)
+            .reply(200, faker.lorem.paragraph());
+
+        const downloadPromise = downloadFile(`${url}/${fileName}`, join(tmpDirectory, fileName), {}, { connectTimeout: 20, retry: { retries: 0 } });
+
+        await expect(downloadPromise).rejects.toThrow('No response');
+    });
+
+    it('aborts a pending request without retrying', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const downloadLocation = join(tmpDirectory, fileName);
+        nock(url)
+            .get(`/${fileName}`)
+            .delay(500)
+            .reply(200, faker.lorem.paragraph());
+        const controller = new AbortController();
+
+        const downloadPromise = downloadFile(`${url}/${fileName}`, downloadLocation, {}, { signal: controller.signal, retry: { minDelay: 1 } });
+        setTimeout(() => controller.abort(), 10);
+
+        await expect(downloadPromise).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+        expect(fs.existsSync(downloadLocation)).toBe(false);
+    });
+
+    it('aborts while waiting for a retry', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        nock(url)
+            .get(`/${fileName}`)
+            .reply(503);
+        const controller = new AbortController();
+
+        const downloadPromise = downloadFile(`${url}/${fileName}`, join(tmpDirectory, fileName), {}, { signal: controller.signal, retry: { minDelay: 60000 } });
+        setTimeout(() => controller.abort(), 50);
+
+        await expect(downloadPromise).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+        expect(nock.isDone()).toBe(true);
+    });
+
+    it('does not start a download with an aborted signal', async () => {
+        const url = faker.internet.url({ appendSlash: false });
+        const fileName = faker.system.fileName();
+        const scope = nock(url)
+            .get(`/${fileName}`)
+            .reply(200, faker.lorem.paragraph());
+
+        await expect(downloadFile(`${url}/${fileName}`, join(tmpDirectory, fileName), {}, { signal: AbortSignal.abort() })).rejects.toThrow();
+
+        expect(scope.isDone()).toBe(false);
     });
 });
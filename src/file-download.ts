@@ -1,5 +1,5 @@
 /**
- * Copyright 2024-2025 Arm Limited
+ * Copyright 2024-2026 Arm Limited
  *
  * Licensed under the Apache License, Version 2.0 (the "License");
  * you may not use this file except in compliance with the License.
@@ -14,46 +14,266 @@
  * limitations under the License.
  */
 
-import { createWriteStream } from 'node:fs';
-import { OutgoingHttpHeaders } from 'http';
+import { createWriteStream, promises as fs } from 'node:fs';
+import { pipeline } from 'node:stream/promises';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { IncomingHttpHeaders, OutgoingHttpHeaders } from 'http';
 import https from 'https';
+import { DEFAULT_LOGGER, Logger } from './logger.ts';
+import { HttpError } from './errors.ts';
 
-export async function downloadFile(url: string, outputPath: string, headers: OutgoingHttpHeaders = {}): Promise<string> {
+/** Retry policy for failed downloads */
+export type RetryPolicy = {
+    /** Maximum number of retries, defaults to 3. */
+    retries?: number;
+    /** Delay before the first retry in milliseconds, doubled for each further retry, defaults to 1000. */
+    minDelay?: number;
+    /** Maximum delay between retries in milliseconds, also capping Retry-After, defaults to 30000. */
+    maxDelay?: number;
+};
+
+/** Options for downloading a file */
+export type DownloadFileOptions = {
+    /** Timeout in milliseconds until the server responds, defaults to 30000. */
+    connectTimeout?: number;
+    /** Timeout in milliseconds the connection may stall while downloading, defaults to 60000. */
+    idleTimeout?: number;
+    /** Policy for retrying network errors, server errors (5xx) and rate limits (429). */
+    retry?: RetryPolicy;
+    /** Logger receiving messages and download progress, defaults to the console. */
+    logger?: Logger;
+    /** Signal to abort the download, the partial download is kept to be resumed later. */
+    signal?: AbortSignal | undefined;
+};
+
+// Options of a single request, all but the signal resolved to their defaults
+type RequestOptions = Required<Omit<DownloadFileOptions, 'retry' | 'signal'>> & Pick<DownloadFileOptions, 'signal'>;
+
+const DEFAULT_OPTIONS = {
+    connectTimeout: 30000,
+    idleTimeout: 60000,
+    retry: {
+        retries: 3,
+        minDelay: 1000,
+        maxDelay: 30000,
+    },
+} as const;
+
+/** Extension of partially downloaded files */
+export const PART_EXTENSION = '.part';
+
+const RETRYABLE_ERROR_CODES = [
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ECONNABORTED',
+    'ETIMEDOUT',
+    'EPIPE',
+    'EAI_AGAIN',
+    'ENETUNREACH',
+    'EHOSTUNREACH',
+    'ERR_STREAM_PREMATURE_CLOSE',
+];
+
+/**
+ * Merge download options, later options take precedence.
+ * Only known keys are picked, so that asset options can be passed in directly.
+ * @param options The download options to merge.
+ * @returns The merged download options.
+ */
+export function mergeDownloadOptions(...options: (DownloadFileOptions | undefined)[]): DownloadFileOptions {
+    const merged: DownloadFileOptions = {};
+    for (const option of options) {
+        if (option?.connectTimeout !== undefined) {
+            merged.connectTimeout = option.connectTimeout;
+        }
+        if (option?.idleTimeout !== undefined) {
+            merged.idleTimeout = option.idleTimeout;
+        }
+        if (option?.retry !== undefined) {
+            merged.retry = { ...merged.retry, ...option.retry };
+        }
+        if (option?.logger !== undefined) {
+            merged.logger = option.logger;
+        }
+        if (option?.signal !== undefined) {
+            merged.signal = option.signal;
+        }
+    }
+    return merged;
+}
+
+function isRetryable(error: unknown) {
+    if (error instanceof HttpError) {
+        return error.status === 429 || error.status >= 500;
+    }
+    return RETRYABLE_ERROR_CODES.includes((error as NodeJS.ErrnoException)?.code ?? '');
+}
+
+// Delay in milliseconds requested by a Retry-After header, given in seconds or as HTTP date.
+function retryAfter(error: unknown) {
+    const value = error instanceof HttpError ? error.headers['retry-after'] : undefined;
+    if (value === undefined) {
+        return undefined;
+    }
+    const seconds = Number(value);
+    const delay = Number.isNaN(seconds) ? Date.parse(value) - Date.now() : seconds * 1000;
+    return Number.isNaN(delay) ? undefined : Math.max(0, delay);
+}
+
+// Exponential backoff with jitter, i.e., a random delay between 50% and 100% of the backoff.
+function backoff(attempt: number, minDelay: number, maxDelay: number) {
+    const delay = Math.min(maxDelay, minDelay * 2 ** attempt);
+    return delay / 2 + Math.random() * delay / 2;
+}
+
+function timeoutError(message: string) {
+    return Object.assign(new Error(message), { code: 'ETIMEDOUT' });
+}
+
+/** State of a partial download to be resumed */
+type ResumeState = {
+    /** The originally requested URL. */
+    url: string;
+    /** Size of the partially downloaded file. */
+    offset: number;
+    /** ETag or Last-Modified of the partially downloaded file. */
+    validator?: string | undefined;
+};
+
+// Metadata of a partial download, stored next to the .part file
+const metaPath = (partPath: string) => `${partPath}.json`;
+
+async function readResumeState(url: string, partPath: string): Promise<ResumeState> {
+    const stat = await fs.stat(partPath).catch(() => undefined);
+    const meta = await fs.readFile(metaPath(partPath), { encoding: 'utf8' })
+        .then(content => JSON.parse(content) as { url?: string; validator?: string })
+        .catch(() => undefined);
+    if (stat?.isFile() && stat.size > 0 && meta?.url === url && meta.validator) {
+        return { url, offset: stat.size, validator: meta.validator };
+    }
+    return { url, offset: 0 };
+}
+
+async function writeResumeState(partPath: string, state: ResumeState) {
+    if (state.validator) {
+        await fs.writeFile(metaPath(partPath), JSON.stringify({ url: state.url, validator: state.validator }), { encoding: 'utf8' });
+    } else {
+        await fs.rm(metaPath(partPath), { force: true });
+    }
+}
+
+// Strong validator usable with If-Range, weak ETags are not allowed.
+function validatorOf(headers: IncomingHttpHeaders) {
+    if (headers.etag && !headers.etag.startsWith('W/')) {
+        return headers.etag;
+    }
+    return headers['last-modified'];
+}
+
+async function requestFile(url: string, partPath: string, headers: OutgoingHttpHeaders, options: RequestOptions, resume: ResumeState): Promise<string> {
     return new Promise((resolve, reject) => {
+        const rangeHeaders = resume.offset > 0 && resume.validator
+            ? { Range: `bytes=${resume.offset}-`, 'If-Range': resume.validator }
+            : {};
         const requestOptions = {
             headers: {
                 Accept: 'application/octet-stream',
                 'User-Agent': 'vsce-helpers',
                 ...headers,
+                ...rangeHeaders,
             },
+            ...(options.signal ? { signal: options.signal } : {}),
         };
 
-        console.log(`Downloading file from ${url} ...`);
+        const { logger } = options;
+        logger.info(resume.offset > 0 ? `Resuming download of ${url} at ${resume.offset} bytes ...` : `Downloading file from ${url} ...`);
+
+        const restart = () => fs.rm(partPath, { force: true })
+            .then(() => requestFile(url, partPath, headers, options, { url: resume.url, offset: 0 }));
 
         const req = https.request(url, requestOptions, res => {
-            if (res.statusCode !== undefined && (res.statusCode < 200 || res.statusCode >= 300)) {
+            clearTimeout(connectTimer);
+            const contentRange = /^bytes (\d+)-/.exec(res.headers['content-range'] ?? '');
+            if (res.statusCode === 416 && resume.offset > 0) {
+                // Partial file not satisfiable anymore, start over
+                res.destroy();
+                restart().then(resolve, reject);
+            } else if (res.statusCode === 206 && Number(contentRange?.[1]) !== resume.offset) {
+                // Unexpected range returned, start over
+                res.destroy();
+                restart().then(resolve, reject);
+            } else if (res.statusCode !== undefined && (res.statusCode < 200 || res.statusCode >= 300)) {
                 res.destroy();
                 if ((res.statusCode === 301 || res.statusCode === 302) && res.headers.location) {
-                    downloadFile(res.headers.location, outputPath).then(resolve, reject);
+                    requestFile(res.headers.location, partPath, {}, options, resume).then(resolve, reject);
                 } else {
-                    const headers = JSON.stringify(res.headers, null, 2);
-                    reject(new Error(`Status Code: ${res.statusCode}\n${url}: ${res.statusMessage ?? ''}\n${headers}`));
+                    reject(new HttpError(url, res.statusCode, res.statusMessage, res.headers));
                 }
             } else {
-                const writeStream = createWriteStream(outputPath);
-                res.pipe(writeStream);
-
-                writeStream.on('error', reject);
-
-                writeStream.on('finish', () => {
-                    writeStream.close();
-                    resolve(outputPath);
-                });
+                // Append to the partial file if the server resumed, otherwise start over
+                const append = res.statusCode === 206;
+                const offset = append ? resume.offset : 0;
+                const length = Number(res.headers['content-length']);
+                const total = Number.isNaN(length) ? undefined : offset + length;
+                let bytes = offset;
+                writeResumeState(partPath, { url: resume.url, offset: 0, validator: validatorOf(res.headers) })
+                    .then(() => {
+                        const done = pipeline(res, createWriteStream(partPath, { flags: append ? 'a' : 'w' }));
+                        res.on('data', (chunk: Buffer) => {
+                            bytes += chunk.length;
+                            logger.progress?.({ type: 'download', url: resume.url, bytes, total });
+                        });
+                        return done;
+                    })
+                    .then(() => resolve(partPath), reject);
             }
-
         });
 
-        req.on('error', reject);
+        const connectTimer = setTimeout(
+            () => req.destroy(timeoutError(`No response from ${url} within ${options.connectTimeout} ms`)),
+            options.connectTimeout,
+        );
+        req.setTimeout(options.idleTimeout, () => req.destroy(timeoutError(`Connection to ${url} stalled for ${options.idleTimeout} ms`)));
+        req.on('error', error => {
+            clearTimeout(connectTimer);
+            reject(error);
+        });
         req.end();
     });
 }
+
+/**
+ * Download a file via HTTPS, following redirects.
+ * Network errors, server errors (5xx) and rate limits (429) are retried with exponential backoff,
+ * honouring Retry-After headers.
+ * The file is downloaded to <outputPath>.part first and renamed on success. An existing partial
+ * download is resumed if the server supports range requests.
+ * The download is aborted with the given signal, keeping the partial download.
+ * @param url The URL to download the file from.
+ * @param outputPath The path to write the file to.
+ * @param headers Additional HTTP headers, e.g. for authentication.
+ * @param options Timeouts, retry policy, logger and abort signal for the download.
+ * @returns The path of the downloaded file.
+ */
+export async function downloadFile(url: string, outputPath: string, headers: OutgoingHttpHeaders = {}, options: DownloadFileOptions = {}): Promise<string> {
+    const { retry, ...requestOptions } = mergeDownloadOptions({ ...DEFAULT_OPTIONS, logger: DEFAULT_LOGGER }, options) as RequestOptions & Pick<DownloadFileOptions, 'retry'>;
+    const { retries, minDelay, maxDelay } = retry as Required<RetryPolicy>;
+    const partPath = `${outputPath}${PART_EXTENSION}`;
+
+    for (let attempt = 0; ; attempt++) {
+        try {
+            requestOptions.signal?.throwIfAborted();
+            await requestFile(url, partPath, headers, requestOptions, await readResumeState(url, partPath));
+            await fs.rename(partPath, outputPath);
+            await fs.rm(metaPath(partPath), { force: true });
+            return outputPath;
+        } catch (error) {
+            if (attempt >= retries || requestOptions.signal?.aborted || !isRetryable(error)) {
+                throw error;
+            }
+            const delay = Math.min(retryAfter(error) ?? backoff(attempt, minDelay, maxDelay), maxDelay);
+            requestOptions.logger.warn(`Download of ${url} failed (${(error as Error).message.split('\n')[0]}), retrying in ${Math.round(delay)} ms ...`);
+            await sleep(delay, undefined, requestOptions.signal ? { signal: requestOptions.signal } : {});
+        }
+    }
+}
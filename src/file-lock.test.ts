@@ -0,0 +1,108 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { vol } from 'memfs';
+import os from 'node:os';
+import path from 'node:path';
+import { faker } from '@faker-js/faker';
+import { FileLock } from './file-lock.ts';
+import { ConsoleLogger } from './logger.ts';
+
+vitest.mock('node:fs/promises');
+
+const logger = new ConsoleLogger('silent');
+
+// PID beyond the maximum PID of common systems, i.e., not running
+const DEAD_PID = 2 ** 30;
+
+beforeEach(() => {
+    vol.reset();
+});
+
+describe('FileLock', () => {
+
+    it('creates the lock file while holding the lock', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+        const lock = new FileLock(lockPath, { logger });
+
+        const result = await lock.run(async () => {
+            const owner = JSON.parse(vol.readFileSync(lockPath, 'utf8') as string);
+            expect(owner).toEqual(expect.objectContaining({ pid: process.pid, hostname: os.hostname() }));
+            return 42;
+        });
+
+        expect(result).toBe(42);
+        expect(vol.existsSync(lockPath)).toBe(false);
+    });
+
+    it('releases the lock if the task fails', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+
+        await expect(new FileLock(lockPath, { logger }).run(async () => { throw new Error('failed'); })).rejects.toThrow('failed');
+
+        expect(vol.existsSync(lockPath)).toBe(false);
+    });
+
+    it('waits until the lock is released by its owner', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+        const first = new FileLock(lockPath, { logger });
+        const second = new FileLock(lockPath, { logger, pollInterval: 1 });
+        const order: string[] = [];
+
+        await first.acquire();
+        const waiting = second.run(async () => { order.push('second'); });
+        await new Promise(resolve => setTimeout(resolve, 10));
+        order.push('first');
+        await first.release();
+        await waiting;
+
+        expect(order).toEqual(['first', 'second']);
+    });
+
+    it('times out waiting for a held lock', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+        vol.fromJSON({ [lockPath]: JSON.stringify({ pid: process.pid, hostname: os.hostname(), created: new Date().toISOString() }) });
+
+        await expect(new FileLock(lockPath, { logger, pollInterval: 1, timeout: 10 }).acquire())
+            .rejects.toThrow(`Timed out waiting for lock ${lockPath} held by process ${process.pid}.`);
+    });
+
+    it('takes over the lock of a process no longer running', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+        vol.fromJSON({ [lockPath]: JSON.stringify({ pid: DEAD_PID, hostname: os.hostname(), created: new Date().toISOString() }) });
+
+        const lock = new FileLock(lockPath, { logger, timeout: 0 });
+        await lock.acquire();
+
+        expect(JSON.parse(vol.readFileSync(lockPath, 'utf8') as string).pid).toBe(process.pid);
+        await lock.release();
+    });
+
+    it('takes over a lock not refreshed within the stale time', async () => {
+        const lockPath = path.join(faker.system.directoryPath(), 'tool.lock');
+        vol.fromJSON({ [lockPath]: JSON.stringify({ pid: 1, hostname: `${os.hostname()}-other`, created: new Date().toISOString() }) });
+        const old = new Date(Date.now() - 60 * 1000);
+        vol.utimesSync(lockPath, old, old);
+
+        await expect(new FileLock(lockPath, { logger, timeout: 0, staleAfter: 120 * 1000 }).acquire()).rejects.toThrow('Timed out');
+        const lock = new FileLock(lockPath, { logger, timeout: 0, staleAfter: 30 * 1000 });
+        await lock.acquire();
+
+        expect(JSON.parse(vol.readFileSync(lockPath, 'utf8') as string).pid).toBe(process.pid);
+        await lock.release();
+    });
+});
@@ -0,0 +1,191 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { DEFAULT_LOGGER, Logger } from './logger.ts';
+
+/**
+ * Options for acquiring a file lock.
+ */
+export type FileLockOptions = {
+    /**
+     * Age in milliseconds after which a lock not refreshed by its owner is considered stale, defaults to 10 minutes.
+     * Locks of processes no longer running on the same host are stale immediately.
+     */
+    staleAfter?: number;
+    /** Interval in milliseconds to check whether a held lock has been released, defaults to 100ms. */
+    pollInterval?: number;
+    /** Maximum time in milliseconds to wait for the lock, waits indefinitely if not given. */
+    timeout?: number;
+    /** Signal to abort waiting for the lock. */
+    signal?: AbortSignal | undefined;
+    logger?: Logger;
+};
+
+/**
+ * Content of a lock file.
+ */
+export type FileLockOwner = {
+    pid: number;
+    hostname: string;
+    /** Time the lock was acquired, as ISO string. */
+    created: string;
+};
+
+const DEFAULT_STALE_AFTER = 10 * 60 * 1000;
+const DEFAULT_POLL_INTERVAL = 100;
+
+// Check whether a process is running on this host
+function isRunning(pid: number) {
+    try {
+        process.kill(pid, 0);
+        return true;
+    } catch (error) {
+        // EPERM: the process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+}
+
+/**
+ * Advisory lock shared between processes, backed by an exclusively created lock file.
+ * The owner refreshes the lock file while holding it, so that locks of crashed processes
+ * are detected by their PID on the same host, or by their age otherwise.
+ */
+export class FileLock {
+    private refreshTimer: NodeJS.Timeout | undefined;
+
+    /**
+     * Creates an instance of FileLock.
+     * @param lockPath Path of the lock file.
+     * @param options Options for acquiring the lock.
+     */
+    constructor(
+        public readonly lockPath: string,
+        protected readonly options: FileLockOptions = {},
+    ) {}
+
+    protected get logger() {
+        return this.options.logger ?? DEFAULT_LOGGER;
+    }
+
+    protected get staleAfter() {
+        return this.options.staleAfter ?? DEFAULT_STALE_AFTER;
+    }
+
+    /**
+     * Run a task while holding the lock.
+     * @param task The task to run.
+     * @returns A promise that settles with the task.
+     */
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await task();
+        } finally {
+            await this.release();
+        }
+    }
+
+    /**
+     * Acquire the lock, waiting for other owners to release it.
+     * @throws If the lock could not be acquired within the timeout, or waiting has been aborted.
+     */
+    public async acquire() {
+        const start = Date.now();
+        const { signal } = this.options;
+        let waiting = false;
+        await fs.mkdir(path.dirname(this.lockPath), { recursive: true });
+        for (;;) {
+            signal?.throwIfAborted();
+            const owner: FileLockOwner = { pid: process.pid, hostname: os.hostname(), created: new Date().toISOString() };
+            try {
+                await fs.writeFile(this.lockPath, JSON.stringify(owner), { encoding: 'utf8', flag: 'wx' });
+                break;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                    throw error;
+                }
+            }
+
+            const current = await this.readOwner();
+            if (current !== undefined && await this.isStale(current)) {
+                this.logger.warn(`Removing stale lock ${this.lockPath} of process ${current.pid ?? 'unknown'}.`);
+                await this.removeIfUnchanged(current);
+                continue;
+            }
+            if (this.options.timeout !== undefined && Date.now() - start >= this.options.timeout) {
+                throw new Error(`Timed out waiting for lock ${this.lockPath} held by process ${current?.pid ?? 'unknown'}.`);
+            }
+            if (!waiting) {
+                this.logger.info(`Waiting for lock ${this.lockPath} held by process ${current?.pid ?? 'unknown'}...`);
+                waiting = true;
+            }
+            await sleep(this.options.pollInterval ?? DEFAULT_POLL_INTERVAL, undefined, signal ? { signal } : {});
+        }
+
+        // Keep the lock fresh while holding it, so that it is not taken for stale
+        this.refreshTimer = setInterval(() => {
+            const now = new Date();
+            fs.utimes(this.lockPath, now, now).catch(() => undefined);
+        }, this.staleAfter / 2);
+        this.refreshTimer.unref();
+    }
+
+    /**
+     * Release the lock.
+     */
+    public async release() {
+        clearInterval(this.refreshTimer);
+        this.refreshTimer = undefined;
+        await fs.rm(this.lockPath, { force: true });
+    }
+
+    // Read the owner of the lock, an empty owner if the lock file is still being written, undefined if released
+    private async readOwner(): Promise<Partial<FileLockOwner> & { mtime: number } | undefined> {
+        try {
+            const stat = await fs.stat(this.lockPath);
+            const content = await fs.readFile(this.lockPath, { encoding: 'utf8' });
+            try {
+                return { ...JSON.parse(content) as FileLockOwner, mtime: stat.mtimeMs };
+            } catch {
+                return { mtime: stat.mtimeMs };
+            }
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return undefined;
+        }
+    }
+
+    private async isStale(owner: Partial<FileLockOwner> & { mtime: number }) {
+        if (owner.pid !== undefined && owner.hostname === os.hostname() && !isRunning(owner.pid)) {
+            return true;
+        }
+        return Date.now() - owner.mtime > this.staleAfter;
+    }
+
+    // Remove the stale lock, unless another process took it over meanwhile
+    private async removeIfUnchanged(stale: Partial<FileLockOwner> & { mtime: number }) {
+        const current = await this.readOwner();
+        if (current?.pid === stale.pid && current?.created === stale.created && current?.mtime === stale.mtime) {
+            await fs.rm(this.lockPath, { force: true });
+        }
+    }
+}
@@ -24,13 +24,23 @@ import { Octokit } from 'octokit';
 import path from 'path';
 import { fs, vol } from 'memfs';
 import { toPosix } from './test-utils.ts';
+import { HttpError, ReleaseNotFoundError } from './errors.ts';
 
 type ExtractOptions = { strip?: number; force?: boolean };
 
+const EMPTY_SHA256 = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
 vitest.mock('node:fs/promises');
-vitest.mock('./file-download.ts', () => ({
-    downloadFile: vitest.fn((_url, dest, _header) => dest),
-}));
+vitest.mock('./file-download.ts', async (importOriginal) => {
+    const { vol } = await import('memfs');
+    return {
+        ...await importOriginal<typeof import('./file-download.ts')>(),
+        downloadFile: vitest.fn((_url, dest, _header) => {
+            vol.fromJSON({ [dest]: '' });
+            return dest;
+        }),
+    };
+});
 
 describe('GitHubAsset', () => {
 
@@ -83,6 +93,24 @@ describe('GitHubAsset', () => {
             expect(result).toBe(dest);
             expect(downloadFile).toHaveBeenCalledWith(url.toString(), dest, {
                 authorization: `Bearer ${token}`,
+            }, {});
+        });
+
+        it('issues download with retry policy and timeouts', async () => {
+            const owner = faker.lorem.word();
+            const repo = faker.lorem.word();
+            const retry = { retries: faker.number.int({ min: 1, max: 10 }) };
+            const asset = new GitHubAssetTest(owner, repo, { retry, idleTimeout: 1000 });
+            asset.withDownloadOptions({ retry: { retries: 0, minDelay: 10 }, connectTimeout: 2000 });
+
+            const url = new URL(faker.internet.url());
+            const dest = faker.system.filePath();
+            await asset.downloadFile(url, dest);
+
+            expect(downloadFile).toHaveBeenCalledWith(url.toString(), dest, {}, {
+                retry: { retries: retry.retries, minDelay: 10 },
+                connectTimeout: 2000,
+                idleTimeout: 1000,
             });
         });
 
@@ -96,7 +124,7 @@ describe('GitHubAsset', () => {
             const result = await asset.downloadFile(url, dest);
 
             expect(result).toBe(dest);
-            expect(downloadFile).toHaveBeenCalledWith(url.toString(), dest, {});
+            expect(downloadFile).toHaveBeenCalledWith(url.toString(), dest, {}, {});
         });
 
     });
@@ -162,7 +190,7 @@ describe('GitHubAsset', () => {
             const result = await asset.downloadRepo(dest, ref);
 
             expect(result).toBe(expectedResult);
-            expect(downloadFile).toHaveBeenCalledWith(url, expectedResult, {});
+            expect(downloadFile).toHaveBeenCalledWith(url, expectedResult, {}, {});
         });
 
     });
@@ -183,6 +211,178 @@ describe('GitHubReleaseAsset', () => {
 
     }
 
+    const releaseData = (id: number, tag: string) => ({
+        id,
+        url: '',
+        html_url: '',
+        assets_url: '',
+        upload_url: '',
+        tarball_url: null,
+        zipball_url: null,
+        node_id: '',
+        tag_name: tag,
+        target_commitish: '',
+        name: null,
+        draft: false,
+        prerelease: false,
+        created_at: '',
+        published_at: null,
+        assets: [],
+        author: {
+            name: faker.person.fullName(),
+            email: faker.internet.email(),
+            login: faker.person.zodiacSign(),
+            id: faker.number.int(),
+            node_id: faker.string.uuid(),
+            avatar_url: faker.internet.url(),
+            gravatar_id: null,
+            url: '',
+            html_url: '',
+            followers_url: '',
+            following_url: '',
+            gists_url: '',
+            starred_url: '',
+            subscriptions_url: '',
+            organizations_url: '',
+            repos_url: '',
+            events_url: '',
+            received_events_url: '',
+            type: '',
+            site_admin: false,
+            starred_at: faker.date.past().toISOString(),
+            user_view_type: 'public'
+        }
+    });
+
+    const releaseAssetData = (id: number, name: string, url: string) => ({
+        id,
+        name,
+        browser_download_url: url,
+        content_type: 'application/gzip',
+        size: faker.number.int({ min: 1000, max: 100000 }),
+        digest: null,
+        url,
+        node_id: '',
+        label: null,
+        state: 'uploaded' as const,
+        download_count: 0,
+        created_at: '',
+        updated_at: '',
+        uploader: null
+    });
+
+    describe('version', () => {
+
+        const releases = (...tags: (string | [string, { prerelease?: boolean, draft?: boolean }])[]) =>
+            tags.map((tag, id) => typeof tag === 'string' ? releaseData(id, tag) : { ...releaseData(id, tag[0]), ...tag[1] });
+
+        const resolveVersion = async (tag: string | RegExp, data: ReturnType<typeof releaseData>[], options = {}) => {
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), tag, faker.system.commonFileName('.tar.gz'), options);
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockRejectedValue(new HttpError(faker.internet.url(), 404));
+            octokitMock.rest.repos.listReleases.mockResolvedValue({ headers: {}, status: 200, url: '', data });
+            return asset.version;
+        };
+
+        it('selects the highest release satisfying a semver range', async () => {
+            const data = releases('v1.10.0', 'v11.2.0', 'v1.2.0', 'v1.2.3', '2.0.0', 'v1.3.0-beta.1', 'nightly');
+
+            await expect(resolveVersion('1.2', data)).resolves.toBe('1.2.3');
+            await expect(resolveVersion('^1.2.0', data)).resolves.toBe('1.10.0');
+            await expect(resolveVersion('~1.2', data)).resolves.toBe('1.2.3');
+            await expect(resolveVersion('>=1 <2', data)).resolves.toBe('1.10.0');
+            await expect(resolveVersion('latest', data)).resolves.toBe('11.2.0');
+            await expect(resolveVersion('v1.2.0', data)).resolves.toBe('1.2.0');
+        });
+
+        it('skips prereleases and drafts for semver ranges unless enabled', async () => {
+            const data = releases(['v3.0.0', { draft: true }], ['v2.1.0', { prerelease: true }], 'v2.1.0-rc.1', 'v2.0.0');
+
+            await expect(resolveVersion('latest', data)).resolves.toBe('2.0.0');
+            await expect(resolveVersion('latest', data, { prerelease: true })).resolves.toBe('2.1.0');
+            await expect(resolveVersion('latest', data, { draft: true })).resolves.toBe('3.0.0');
+            await expect(resolveVersion('^2.1.0-rc.1', data)).resolves.toBe('2.1.0-rc.1');
+            await expect(resolveVersion('^2.1.0-rc.1', data, { prerelease: false })).resolves.toBeUndefined();
+        });
+
+        it('selects exact versions of releases flagged as prerelease', async () => {
+            const data = releases(['v2.0.0', { prerelease: true }], 'v1.0.0');
+
+            await expect(resolveVersion('2.0.0', data)).resolves.toBe('2.0.0');
+            await expect(resolveVersion('latest', data)).resolves.toBe('1.0.0');
+            await expect(resolveVersion('^2.0.0', data)).resolves.toBeUndefined();
+            await expect(resolveVersion('2.0.0', data, { prerelease: false })).resolves.toBeUndefined();
+        });
+
+        it('selects exact tags looked up directly if flagged as prerelease', async () => {
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), '2.0.0', faker.system.commonFileName('.tar.gz'));
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({ headers: {}, status: 200, url: '', data: { ...releaseData(1, 'v2.0.0'), prerelease: true } } as never);
+
+            await expect(asset.version).resolves.toBe('2.0.0');
+            expect(octokitMock.rest.repos.listReleases).not.toHaveBeenCalled();
+        });
+
+        it('ignores prefixes of release tags for semver ranges', async () => {
+            const data = releases('llvmorg-18.1.0-rc1', 'llvmorg-17.0.6', 'llvmorg-17.0.1', 'tool2-v16.0.0', 'nightly');
+
+            await expect(resolveVersion('latest', data)).resolves.toBe('17.0.6');
+            await expect(resolveVersion('17.0.1', data)).resolves.toBe('17.0.1');
+            await expect(resolveVersion('^16', data)).resolves.toBe('16.0.0');
+            await expect(resolveVersion('latest', data, { prerelease: true })).resolves.toBe('18.1.0-rc1');
+        });
+
+        it('matches tag patterns in release order', async () => {
+            const data = releases(['nightly', { prerelease: true }], 'v1.0.0', 'tool-2.0.0');
+
+            await expect(resolveVersion('nightly', data)).resolves.toBe('nightly');
+            await expect(resolveVersion('nightly', data, { prerelease: false })).resolves.toBeUndefined();
+            await expect(resolveVersion(/^tool-(.*)$/, data)).resolves.toBe('2.0.0');
+        });
+
+        it('looks up exact tags without listing releases', async () => {
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), '1.2.3', faker.system.commonFileName('.tar.gz'));
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockImplementation((async ({ tag }: { tag: string }) => {
+                if (tag !== '1.2.3') {
+                    throw new HttpError(faker.internet.url(), 404);
+                }
+                return { headers: {}, status: 200, url: '', data: releaseData(1, tag) };
+            }) as never);
+
+            await expect(asset.version).resolves.toBe('1.2.3');
+            expect(octokitMock.rest.repos.getReleaseByTag).toHaveBeenCalledWith(expect.objectContaining({ tag: 'v1.2.3' }));
+            expect(octokitMock.rest.repos.getReleaseByTag).toHaveBeenCalledWith(expect.objectContaining({ tag: '1.2.3' }));
+            expect(octokitMock.rest.repos.listReleases).not.toHaveBeenCalled();
+        });
+
+        it('pages through releases', async () => {
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), '~0.9', faker.system.commonFileName('.tar.gz'));
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.listReleases.mockImplementation((async ({ page }: { page: number }) => ({
+                headers: {}, status: 200, url: '',
+                data: page === 1 ? releases(...Array.from({ length: 100 }, (_, i) => `v1.0.${i}`)) : releases('v0.9.1', 'v0.9.0'),
+            })) as never);
+
+            await expect(asset.version).resolves.toBe('0.9.1');
+            expect(octokitMock.rest.repos.listReleases).toHaveBeenCalledTimes(2);
+            expect(octokitMock.rest.repos.listReleases).toHaveBeenLastCalledWith(expect.objectContaining({ per_page: 100, page: 2 }));
+        });
+
+        it('stops searching releases after maxReleases', async () => {
+            const asset = new GitHubReleaseAssetTest('my-org', 'my-tool', '^0.9', faker.system.commonFileName('.tar.gz'), { maxReleases: 150 });
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.listReleases.mockResolvedValue({
+                headers: {}, status: 200, url: '',
+                data: releases(...Array.from({ length: 100 }, (_, i) => `v1.0.${i}`)),
+            });
+
+            await expect(asset.copyTo(faker.system.directoryPath())).rejects.toThrow(
+                'Could not find release for tag ^0.9 in my-org/my-tool, searched the latest 150 releases only (see maxReleases)');
+            expect(octokitMock.rest.repos.listReleases).toHaveBeenCalledTimes(2);
+        });
+    });
+
     describe('copyTo', async () => {
 
         it('issues download of release asset', async () => {
@@ -197,80 +397,202 @@ describe('GitHubReleaseAsset', () => {
             const asset = new GitHubReleaseAssetTest(owner, repo, tag, assetName);
 
             const octokitMock = await asset.getOctokit();
-            octokitMock.rest.repos.listReleases.mockResolvedValue({
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
                 headers: {},
                 status: 200,
                 url: '',
-                data: [{
-                    id: id,
-                    url: '',
-                    html_url: '',
-                    assets_url: '',
-                    upload_url: '',
-                    tarball_url: null,
-                    zipball_url: null,
-                    node_id: '',
-                    tag_name: tag,
-                    target_commitish: '',
-                    name: null,
-                    draft: false,
-                    prerelease: false,
-                    created_at: '',
-                    published_at: null,
-                    assets: [],
-                    author: {
-                        name: faker.person.fullName(),
-                        email: faker.internet.email(),
-                        login: faker.person.zodiacSign(),
-                        id: faker.number.int(),
-                        node_id: faker.string.uuid(),
-                        avatar_url: faker.internet.url(),
-                        gravatar_id: null,
-                        url: '',
-                        html_url: '',
-                        followers_url: '',
-                        following_url: '',
-                        gists_url: '',
-                        starred_url: '',
-                        subscriptions_url: '',
-                        organizations_url: '',
-                        repos_url: '',
-                        events_url: '',
-                        received_events_url: '',
-                        type: '',
-                        site_admin: false,
-                        starred_at: faker.date.past().toISOString(),
-                        user_view_type: 'public'
-                    }
-                }]
+                data: releaseData(id, tag),
             });
             octokitMock.rest.repos.listReleaseAssets.mockResolvedValue({
                 headers: {},
                 status: 200,
                 url: '',
-                data: [{
-                    id: id,
-                    name: assetName,
-                    browser_download_url: url,
-                    content_type: 'application/gzip',
-                    size: faker.number.int({ min: 1000, max: 100000 }),
-                    digest: null,
-                    url: url,
-                    node_id: '',
-                    label: null,
-                    state: 'uploaded',
-                    download_count: 0,
-                    created_at: '',
-                    updated_at: '',
-                    uploader: null
-                }],
+                data: [releaseAssetData(id, assetName, url)],
             });
 
             const result = await asset.copyTo(targetDir);
             const expectedResult = path.join(targetDir, assetName);
 
             expect(result).toBe(expectedResult);
-            expect(downloadFile).toHaveBeenCalledWith(url, expectedResult, {});
+            expect(downloadFile).toHaveBeenCalledWith(url, expectedResult, {}, {});
+        });
+
+        it('verifies release asset against checksum asset', async () => {
+            const owner = faker.lorem.word();
+            const repo = faker.lorem.word();
+            const tag = `v${faker.system.semver()}`;
+            const assetName = faker.system.commonFileName('.tar.gz');
+            const targetDir = faker.system.directoryPath();
+            const url = faker.internet.url({ appendSlash: true });
+            const checksumUrl = faker.internet.url({ appendSlash: true });
+            const id = faker.number.int();
+
+            const asset = new GitHubReleaseAssetTest(owner, repo, tag, assetName, { checksums: true });
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: releaseData(id, tag),
+            });
+            octokitMock.rest.repos.listReleaseAssets.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: [releaseAssetData(id, assetName, url), releaseAssetData(id + 1, 'SHA256SUMS', checksumUrl)],
+            });
+            vitest.mocked(downloadFile).mockImplementationOnce(async (_url, dest) => {
+                vol.fromJSON({ [dest]: `${EMPTY_SHA256}  ${assetName}\n` });
+                return dest;
+            });
+
+            const result = await asset.copyTo(targetDir);
+
+            expect(result).toBe(path.join(targetDir, assetName));
+            expect(downloadFile).toHaveBeenCalledWith(checksumUrl, expect.stringMatching(/SHA256SUMS$/), {}, {});
+        });
+
+        it('fails with AssetNotFoundError if the checksum asset does not list the release asset', async () => {
+            const tag = `v${faker.system.semver()}`;
+            const assetName = faker.system.commonFileName('.tar.gz');
+            const id = faker.number.int();
+
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), tag, assetName, { checksums: 'SHA256SUMS' });
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: releaseData(id, tag),
+            });
+            octokitMock.rest.repos.listReleaseAssets.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: [releaseAssetData(id, assetName, faker.internet.url()), releaseAssetData(id + 1, 'SHA256SUMS', faker.internet.url())],
+            });
+            vitest.mocked(downloadFile).mockImplementationOnce(async (_url, dest) => {
+                vol.fromJSON({ [dest]: `${EMPTY_SHA256}  other.tar.gz\n` });
+                return dest;
+            });
+
+            const result = asset.copyTo(faker.system.directoryPath());
+            await expect(result).rejects.toThrow(`Checksum asset SHA256SUMS does not list ${assetName}`);
+            await expect(result).rejects.toMatchObject({ code: 'ERR_ASSET_NOT_FOUND', assetName });
+        });
+
+        it('fails download of release asset not matching the checksum', async () => {
+            const owner = faker.lorem.word();
+            const repo = faker.lorem.word();
+            const tag = `v${faker.system.semver()}`;
+            const assetName = faker.system.commonFileName('.tar.gz');
+            const targetDir = faker.system.directoryPath();
+            const url = faker.internet.url({ appendSlash: true });
+            const checksumUrl = faker.internet.url({ appendSlash: true });
+            const id = faker.number.int();
+
+            const asset = new GitHubReleaseAssetTest(owner, repo, tag, assetName, { checksums: `${assetName}.sha256` });
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: releaseData(id, tag),
+            });
+            octokitMock.rest.repos.listReleaseAssets.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: [releaseAssetData(id, assetName, url), releaseAssetData(id + 1, `${assetName}.sha256`, checksumUrl)],
+            });
+            vitest.mocked(downloadFile).mockImplementationOnce(async (_url, dest) => {
+                vol.fromJSON({ [dest]: faker.string.hexadecimal({ length: 64, prefix: '' }) });
+                return dest;
+            });
+
+            await expect(asset.copyTo(targetDir)).rejects.toThrow('Integrity check failed');
+            expect(vol.existsSync(path.join(targetDir, assetName))).toBe(false);
+        });
+
+        it('pages through release assets', async () => {
+            const tag = `v${faker.system.semver()}`;
+            const assetName = faker.system.commonFileName('.tar.gz');
+            const targetDir = faker.system.directoryPath();
+            const url = faker.internet.url({ appendSlash: true });
+            const id = faker.number.int();
+
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), tag, assetName);
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: releaseData(id, tag),
+            });
+            octokitMock.rest.repos.listReleaseAssets.mockImplementation((async ({ page }: { page: number }) => ({
+                headers: {},
+                status: 200,
+                url: '',
+                data: page === 1
+                    ? Array.from({ length: 100 }, (_, i) => releaseAssetData(i, `other-${i}.tar.gz`, faker.internet.url()))
+                    : [releaseAssetData(id, assetName, url)],
+            })) as never);
+
+            const result = await asset.copyTo(targetDir);
+
+            expect(result).toBe(path.join(targetDir, assetName));
+            expect(downloadFile).toHaveBeenCalledWith(url, path.join(targetDir, assetName), {}, {});
+        });
+
+        it('fails with ReleaseNotFoundError without matching release', async () => {
+            const owner = faker.lorem.word();
+            const repo = faker.lorem.word();
+            const tag = `v${faker.system.semver()}`;
+
+            const asset = new GitHubReleaseAssetTest(owner, repo, tag, faker.system.commonFileName('.tar.gz'));
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockRejectedValue(new HttpError(faker.internet.url(), 404));
+            octokitMock.rest.repos.listReleases.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: [releaseData(faker.number.int(), 'nightly')],
+            });
+
+            const result = asset.copyTo(faker.system.directoryPath());
+            await expect(result).rejects.toBeInstanceOf(ReleaseNotFoundError);
+            await expect(result).rejects.toMatchObject({ code: 'ERR_RELEASE_NOT_FOUND', owner, repo });
+        });
+
+        it('fails with AssetNotFoundError without matching release asset', async () => {
+            const tag = `v${faker.system.semver()}`;
+            const assetName = faker.system.commonFileName('.tar.gz');
+            const id = faker.number.int();
+
+            const asset = new GitHubReleaseAssetTest(faker.lorem.word(), faker.lorem.word(), tag, assetName);
+
+            const octokitMock = await asset.getOctokit();
+            octokitMock.rest.repos.getReleaseByTag.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: releaseData(id, tag),
+            });
+            octokitMock.rest.repos.listReleaseAssets.mockResolvedValue({
+                headers: {},
+                status: 200,
+                url: '',
+                data: [releaseAssetData(id, `${assetName}.sig`, faker.internet.url())],
+            });
+
+            const result = asset.copyTo(faker.system.directoryPath());
+            await expect(result).rejects.toThrow(`Could not find release asset ${assetName} for release '${tag}'`);
+            await expect(result).rejects.toMatchObject({ code: 'ERR_ASSET_NOT_FOUND', assetName });
         });
 
     });
@@ -643,8 +965,8 @@ describe('GitHubWorkflowAsset', () => {
             const result = await asset.copyTo(targetDir);
 
             expect(result).toBe(targetDir);
-            expect(asset.downloadArtifact).toHaveBeenCalledWith(artifactId, expect.any(String));
-            expect(asset.extractArchive).toHaveBeenCalledWith(asset.downloadArtifact.mock.calls[0][1], targetDir);
+            expect(asset.downloadArtifact).toHaveBeenCalledWith(artifactId, expect.any(String), undefined);
+            expect(asset.extractArchive).toHaveBeenCalledWith(asset.downloadArtifact.mock.calls[0][1], targetDir, { signal: undefined });
         });
 
     });
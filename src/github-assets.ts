@@ -15,20 +15,54 @@
  */
 
 import { URL } from 'url';
-import { AbstractAsset } from './downloader.ts';
+import { AbstractAsset, AssetDownloadOptions } from './downloader.ts';
+import { DownloadFileOptions, mergeDownloadOptions } from './file-download.ts';
 import { OutgoingHttpHeaders } from 'http';
 import fs from 'node:fs/promises';
 import path from 'node:path';
 
 import type { RestEndpointMethodTypes } from '@octokit/plugin-rest-endpoint-methods';
 import { Octokit } from 'octokit';
+import semver, { SemVer } from 'semver';
+import { parseChecksums } from './integrity.ts';
+import { AssetNotFoundError, HttpError, ReleaseNotFoundError } from './errors.ts';
 
 /** Options to access assets at GitHub */
-type GitHubAssetOptions = {
+type GitHubAssetOptions = DownloadFileOptions & {
     /** GitHub personal access token for authentication. */
     token?: string;
 };
 
+const PER_PAGE = 100;
+const DEFAULT_MAX_RELEASES = 1000;
+
+// Iterate the items of a paginated GitHub API list endpoint, up to the given maximum number of items
+async function* paginate<T>(list: (params: { per_page: number, page: number }) => Promise<{ data: T[] }>, max = Infinity) {
+    let count = 0;
+    for (let page = 1; count < max; page++) {
+        const { data } = await list({ per_page: PER_PAGE, page });
+        yield* data.slice(0, max - count);
+        count += data.length;
+        if (data.length < PER_PAGE) {
+            return;
+        }
+    }
+}
+
+// Parse a release tag as semantic version, ignoring a prefix such as llvmorg- in llvmorg-17.0.1
+function parseTag(tag: string | undefined) {
+    return semver.parse(tag) ?? semver.parse(tag?.replace(/^.*?[-_/@]v?(?=\d+\.\d+\.\d+)/, ''));
+}
+
+// Convert failed GitHub API requests into HttpErrors, keeping other errors as they are
+function toHttpError(error: Error) {
+    if (!('status' in error) || typeof error.status !== 'number' || error.status < 400) {
+        return error;
+    }
+    const { request, response } = error as Error & { request?: { url?: string }, response?: { url?: string, headers?: Record<string, string> } };
+    return new HttpError(response?.url ?? request?.url ?? '', error.status, error.message, response?.headers ?? {}, { cause: error });
+}
+
 /**
  * Base class for GitHub assets.
  * Provides common functionality for downloading and managing GitHub assets.
@@ -52,13 +86,17 @@ export abstract class GitHubAsset<T extends GitHubAssetOptions = GitHubAssetOpti
     }
 
     public abstract get version(): Promise<string | undefined> | string | undefined;
-    public abstract copyTo(dest: string): Promise<string>;
+    public abstract copyTo(dest: string, signal?: AbortSignal): Promise<string>;
 
     protected async getOctokit() {
         const { default: nodeFetch } = await import('node-fetch');
         const ghToken = this.options?.token;
-        const octokit = GitHubAsset.OCTOKIT.get(ghToken ?? '') ?? new Octokit({ auth: ghToken, request: { fetch: nodeFetch } });
-        GitHubAsset.OCTOKIT.set(ghToken ?? '', octokit);
+        let octokit = GitHubAsset.OCTOKIT.get(ghToken ?? '');
+        if (octokit === undefined) {
+            octokit = new Octokit({ auth: ghToken, request: { fetch: nodeFetch } });
+            octokit.hook.error('request', error => { throw toHttpError(error); });
+            GitHubAsset.OCTOKIT.set(ghToken ?? '', octokit);
+        }
         return octokit;
     }
 
@@ -66,12 +104,20 @@ export abstract class GitHubAsset<T extends GitHubAssetOptions = GitHubAssetOpti
         return { owner: this.owner, repo: this.repo };
     }
 
-    protected async downloadFile(url: URL, downloadFilePath: string) {
-        const headers = {} as OutgoingHttpHeaders;
+    /**
+     * Octokit request options aborting with the given signal, or the signal of the (default) download options.
+     */
+    protected requestSignal(signal?: AbortSignal) {
+        const abort = signal ?? this.options?.signal ?? this.downloadDefaults.signal;
+        return abort ? { request: { signal: abort } } : {};
+    }
+
+    protected async downloadFile(url: URL, downloadFilePath: string, headers: OutgoingHttpHeaders = {}, options: AssetDownloadOptions = {}) {
+        headers = { ...headers };
         if (this.options?.token) {
             headers.authorization = `Bearer ${this.options?.token}`;
         }
-        return super.downloadFile(url, downloadFilePath, headers);
+        return super.downloadFile(url, downloadFilePath, headers, { ...mergeDownloadOptions(this.options, options), integrity: options.integrity });
     }
 
     protected async resolveRef(ref: string) {
@@ -80,33 +126,61 @@ export abstract class GitHubAsset<T extends GitHubAssetOptions = GitHubAssetOpti
         }
         const octokit = await this.getOctokit();
         const { data: { object } } = await octokit.rest.git.getRef({
-            ...this.repoAndOwner, ref,
+            ...this.repoAndOwner, ref, ...this.requestSignal(),
         });
         this.refs.set(ref, object.sha);
         return object.sha;
     }
 
-    protected async downloadRepo(dest: string, ref: string) {
+    protected async downloadRepo(dest: string, ref: string, signal?: AbortSignal) {
         const octokit = await this.getOctokit();
-        const url = (await octokit.rest.repos.downloadTarballArchive( { ...this.repoAndOwner, ref })).url;
-        return this.downloadFile(new URL(url), path.join(dest, 'repo.tar.gz'));
+        const url = (await octokit.rest.repos.downloadTarballArchive( { ...this.repoAndOwner, ref, ...this.requestSignal(signal) })).url;
+        return this.downloadFile(new URL(url), path.join(dest, 'repo.tar.gz'), {}, { signal });
     }
 
 }
 
 type GitHubRelease = RestEndpointMethodTypes['repos']['getReleaseByTag']['response']['data'];
+type GitHubReleaseAssetData = RestEndpointMethodTypes['repos']['listReleaseAssets']['response']['data'][number];
+
+/**
+ * Options for downloading a GitHub release asset.
+ */
+type GitHubReleaseAssetOptions = GitHubAssetOptions & {
+    /** Expected SRI-style integrity of the asset, e.g. sha256-<base64 digest>. */
+    integrity?: string;
+    /**
+     * Look up the expected integrity from a checksum asset of the same release.
+     * Either the name of the checksum asset, or true to probe well-known names
+     * such as <assetName>.sha256 or SHA256SUMS.
+     */
+    checksums?: string | boolean;
+    /**
+     * Whether releases flagged as prerelease, and prerelease versions, can be selected.
+     * By default, tag ranges select them only if the range names a prerelease of the same version,
+     * e.g. ^2.0.0-beta.1, while exact versions and tag patterns match all releases.
+     */
+    prerelease?: boolean;
+    /** Whether draft releases can be selected, by default only tag patterns match drafts. */
+    draft?: boolean;
+    /** Maximum number of releases, latest first, searched for the tag, defaults to 1000. */
+    maxReleases?: number;
+};
 
 /**
  * Represents a GitHub release asset.
  */
-export class GitHubReleaseAsset extends GitHubAsset<GitHubAssetOptions> {
+export class GitHubReleaseAsset extends GitHubAsset<GitHubReleaseAssetOptions> {
     private releasePromise: Promise<GitHubRelease | undefined> | undefined;
+    private releaseAssetsPromise: Promise<GitHubReleaseAssetData[]> | undefined;
+    private releaseSearchLimit: number | undefined;
 
     /**
      * Creates an instance of GitHubReleaseAsset.
      * @param owner The owner (or org) of the repository.
      * @param repo The name of the repository.
-     * @param tag The tag (or regex) to match the release.
+     * @param tag The semver range (or latest) to select the highest matching release by, or the tag pattern (or regex)
+     * to match the release. Strings not being a valid semver range, e.g. nightly, are taken as tag pattern.
      * @param assetName The name of the asset to download.
      * @param options Options for the asset.
      */
@@ -115,56 +189,213 @@ export class GitHubReleaseAsset extends GitHubAsset<GitHubAssetOptions> {
         repo: string,
         protected readonly tag: RegExp | string,
         protected readonly assetName: string,
-        options?: GitHubAssetOptions,
+        options?: GitHubReleaseAssetOptions,
     ) {
         super(owner, repo, options);
     }
 
     protected get release() {
         if (this.releasePromise === undefined) {
-            this.releasePromise = this.getOctokit()
-                .then(octokit => octokit.rest.repos.listReleases(this.repoAndOwner))
-                .then(response => response.data.find(r => r.tag_name.match(this.tagRegex)));
+            this.releasePromise = this.findRelease();
         }
         return this.releasePromise;
     }
 
+    /**
+     * Look up exact tags directly, otherwise search the releases page by page, up to maxReleases.
+     */
+    private async findRelease() {
+        const octokit = await this.getOctokit();
+        for (const tag of this.exactTags) {
+            try {
+                const { data } = await octokit.rest.repos.getReleaseByTag({ ...this.repoAndOwner, tag, ...this.requestSignal() });
+                const release = this.selectRelease([data]);
+                if (release) {
+                    return release;
+                }
+            } catch (error) {
+                if (!(error instanceof HttpError && error.status === 404)) {
+                    throw error;
+                }
+            }
+        }
+
+        const maxReleases = this.options?.maxReleases ?? DEFAULT_MAX_RELEASES;
+        const releases: GitHubRelease[] = [];
+        const pages = paginate(params => octokit.rest.repos.listReleases({ ...this.repoAndOwner, ...params, ...this.requestSignal() }), maxReleases);
+        for await (const release of pages) {
+            // Tag patterns take the first match, no need to search further
+            if (this.tagRange === undefined && this.selectRelease([release])) {
+                return release;
+            }
+            releases.push(release);
+        }
+
+        const release = this.selectRelease(releases);
+        if (!release && releases.length >= maxReleases) {
+            this.releaseSearchLimit = maxReleases;
+        }
+        return release;
+    }
+
+    /**
+     * Select the release with the highest version satisfying the tag range,
+     * or the first release matching the tag pattern.
+     * Exact versions are an explicit choice, selected even if GitHub flags the release as prerelease.
+     */
+    protected selectRelease(releases: GitHubRelease[]) {
+        const range = this.tagRange;
+        const { prerelease, draft } = this.options ?? {};
+        const exact = typeof this.tag === 'string' && semver.valid(this.tag) !== null;
+        const candidates = releases.filter(r => !r.draft || (draft ?? range === undefined));
+
+        if (range === undefined) {
+            return candidates.find(r => (!r.prerelease || prerelease !== false) && r.tag_name.match(this.tagRegex));
+        }
+
+        return candidates
+            .map(release => ({ release, version: parseTag(release.tag_name) }))
+            .filter((c): c is { release: GitHubRelease, version: SemVer } => c.version !== null)
+            .filter(({ release, version }) => prerelease === true || (exact && prerelease === undefined)
+                || (version.prerelease.length === 0 ? !release.prerelease : prerelease === undefined))
+            .filter(({ version }) => semver.satisfies(version, range, { includePrerelease: prerelease === true }))
+            .sort((a, b) => semver.rcompare(a.version, b.version))[0]?.release;
+    }
+
     public get cacheId() {
         return this.release
             .then(release => `${this.owner}/${this.repo}/${release?.tag_name}`);
     }
 
+    /**
+     * The semver range given as tag, latest being any version, or undefined for tag patterns.
+     */
+    protected get tagRange() {
+        if (typeof this.tag !== 'string') {
+            return undefined;
+        }
+        return this.tag === 'latest' ? '*' : semver.validRange(this.tag) ?? undefined;
+    }
+
+    /**
+     * Tags to look up directly before searching all releases, i.e., the tag of an exact version
+     * with and without v prefix, or a plain tag name such as nightly.
+     */
+    protected get exactTags() {
+        if (typeof this.tag !== 'string') {
+            return [];
+        }
+        const version = semver.valid(this.tag);
+        if (version !== null) {
+            return [`v${version}`, version];
+        }
+        return this.tagRange === undefined && /^[\w.-]+$/.test(this.tag) ? [this.tag] : [];
+    }
+
     protected get tagRegex() {
         return typeof this.tag === 'string' ? new RegExp(`v?(${this.tag})`) : this.tag;
     }
 
-    protected async findReleaseAsset() {
+    protected get releaseAssets() {
+        if (this.releaseAssetsPromise === undefined) {
+            this.releaseAssetsPromise = this.listReleaseAssets();
+        }
+        return this.releaseAssetsPromise;
+    }
+
+    private async listReleaseAssets() {
         const octokit = await this.getOctokit();
         const release = await this.release;
 
         if (!release) {
-            throw new Error(`Could not find release for tag pattern ${this.tagRegex.source}`);
+            throw new ReleaseNotFoundError(this.owner, this.repo, typeof this.tag === 'string' ? this.tag : this.tag.source, this.releaseSearchLimit);
         }
 
-        const assets = (await octokit.rest.repos.listReleaseAssets({ ...this.repoAndOwner, release_id: release.id })).data;
-        const asset = assets.find(a => a.name === this.assetName);
+        const assets: GitHubReleaseAssetData[] = [];
+        const pages = paginate(params => octokit.rest.repos.listReleaseAssets({ ...this.repoAndOwner, release_id: release.id, ...params, ...this.requestSignal() }));
+        for await (const asset of pages) {
+            assets.push(asset);
+        }
+        return assets;
+    }
+
+    protected async findReleaseAsset() {
+        const release = await this.release;
+        const asset = (await this.releaseAssets).find(a => a.name === this.assetName);
 
         if (!asset) {
-            throw new Error(`Could not find release asset ${this.assetName} for release '${release.tag_name}'`);
+            throw new AssetNotFoundError(`Could not find release asset ${this.assetName} for release '${release?.tag_name}'`, this.assetName);
         }
 
         return asset;
     }
 
+    protected get checksumAssetNames() {
+        if (typeof this.options?.checksums === 'string') {
+            return [this.options.checksums];
+        }
+        return [
+            `${this.assetName}.sha256`,
+            `${this.assetName}.sha512`,
+            `${this.assetName}.sha256sum`,
+            'SHA256SUMS',
+            'SHA512SUMS',
+            'sha256sums.txt',
+            'checksums.txt',
+        ];
+    }
+
+    /**
+     * Get the expected integrity of the release asset, either given explicitly
+     * or looked up from a checksum asset of the same release.
+     */
+    protected async expectedIntegrity(signal?: AbortSignal) {
+        if (this.options?.integrity || !this.options?.checksums) {
+            return this.options?.integrity;
+        }
+
+        const release = await this.release;
+        const assets = await this.releaseAssets;
+        const checksumAsset = this.checksumAssetNames
+            .map(name => assets.find(a => a.name === name))
+            .find(a => a !== undefined);
+
+        if (!checksumAsset) {
+            throw new AssetNotFoundError(`Could not find checksum asset for ${this.assetName} in release '${release?.tag_name}'`,
+                this.checksumAssetNames.join(', '));
+        }
+
+        const temp = await this.mkTempDir();
+        const checksumFile = await this.downloadFile(new URL(checksumAsset.url), path.join(temp, checksumAsset.name), {}, { signal });
+        const integrity = parseChecksums(await fs.readFile(checksumFile, { encoding: 'utf8' }), this.assetName);
+
+        if (!integrity) {
+            throw new AssetNotFoundError(`Checksum asset ${checksumAsset.name} does not list ${this.assetName}`, this.assetName);
+        }
+
+        return integrity;
+    }
+
     public get version() {
         return this.release
-            .then(release => release?.tag_name?.match(this.tagRegex)?.[1]);
+            .then(release => this.tagRange !== undefined
+                ? parseTag(release?.tag_name)?.version
+                : release?.tag_name?.match(this.tagRegex)?.[1]);
     }
 
-    public async copyTo(dest?: string)  {
+    public get source() {
+        return Promise.all([this.release, this.findReleaseAsset()])
+            .then(([release, asset]) => this.withFetchedIntegrity({
+                url: asset.browser_download_url,
+                ...(release !== undefined ? { releaseId: release.id } : {}),
+            }));
+    }
+
+    public async copyTo(dest?: string, signal?: AbortSignal)  {
         const { url } = await this.findReleaseAsset();
         dest = await this.mkDest(dest);
-        return this.downloadFile(new URL(url), path.join(dest, this.assetName));
+        const integrity = await this.expectedIntegrity(signal);
+        return this.downloadFile(new URL(url), path.join(dest, this.assetName), {}, { integrity, signal });
     }
 
 }
@@ -201,7 +432,15 @@ export class GitHubRepoAsset extends GitHubAsset<GitHubRepoAssetOptions> {
             .then(sha => `${this.owner}/${this.repo}/${sha}`);
     }
 
-    public async copyTo(dest: string): Promise<string> {
+    public get source() {
+        return this.resolveRef(this.ref)
+            .then(sha => this.withFetchedIntegrity({
+                url: `https://github.com/${this.owner}/${this.repo}`,
+                ...(sha !== undefined ? { sha } : {}),
+            }));
+    }
+
+    public async copyTo(dest: string, signal?: AbortSignal): Promise<string> {
         const toArray = <T>(value: T | T[] | undefined): T[] => {
             if (Array.isArray(value)) {
                 return value;
@@ -213,8 +452,8 @@ export class GitHubRepoAsset extends GitHubAsset<GitHubRepoAssetOptions> {
         };
 
         const temp = await this.mkTempDir();
-        const archive = await this.downloadRepo(temp, this.ref);
-        const extracted = await this.extractArchive(archive, path.join(temp, 'repo'), { strip: 1 });
+        const archive = await this.downloadRepo(temp, this.ref, signal);
+        const extracted = await this.extractArchive(archive, path.join(temp, 'repo'), { strip: 1, signal });
 
         this.addDisposable(() => fs.rm(extracted, { recursive: true, force: true }));
 
@@ -224,7 +463,7 @@ export class GitHubRepoAsset extends GitHubAsset<GitHubRepoAssetOptions> {
 
         for (const srcPath of paths) {
             const src = path.join(extracted, srcPath);
-            console.log(`Copying ${src} to ${dest}`);
+            this.logger.debug(`Copying ${src} to ${dest}`);
             await this.copyRecursive(src, dest, { strip: 1 });
         }
 
@@ -272,20 +511,20 @@ export class GitHubWorkflowAsset extends GitHubAsset {
             };
 
             this.lastWorkflowRunPromise = this.getOctokit()
-                .then(octokit => octokit.rest.actions.listWorkflowRuns(params))
+                .then(octokit => octokit.rest.actions.listWorkflowRuns({ ...params, ...this.requestSignal() }))
                 .then(response => response.data.workflow_runs[0]);
         }
         return this.lastWorkflowRunPromise;
     }
 
-    protected async downloadArtifact(id: number, downloadFilePath: string) {
+    protected async downloadArtifact(id: number, downloadFilePath: string, signal?: AbortSignal) {
         if (!await this.assureFile(downloadFilePath)) {
             const octokit = await this.getOctokit();
-            const response = await octokit.rest.actions.downloadArtifact({ ...this.repoAndOwner, artifact_id: id, archive_format: 'zip' });
+            const response = await octokit.rest.actions.downloadArtifact({ ...this.repoAndOwner, artifact_id: id, archive_format: 'zip', ...this.requestSignal(signal) });
             await fs.mkdir(path.dirname(downloadFilePath), { recursive: true });
             await fs.writeFile(downloadFilePath, Buffer.from(response.data as ArrayBuffer));
         }
-        return downloadFilePath;
+        return this.recordIntegrity(downloadFilePath);
     }
 
     public get version() {
@@ -298,23 +537,28 @@ export class GitHubWorkflowAsset extends GitHubAsset {
             .then(run => `${this.owner}/${this.repo}/${this.workflow}/${run.id}`);
     }
 
-    public async copyTo(dest?: string) {
+    public get source() {
+        return this.lastWorkflowRun
+            .then(run => this.withFetchedIntegrity({ url: run.html_url, runId: run.id }));
+    }
+
+    public async copyTo(dest?: string, signal?: AbortSignal) {
         const octokit = await this.getOctokit();
 
         const temp = await this.mkTempDir();
 
         const run = await this.lastWorkflowRun;
-        const artifacts = await octokit.rest.actions.listWorkflowRunArtifacts({ ...this.repoAndOwner, run_id: run.id });
+        const artifacts = await octokit.rest.actions.listWorkflowRunArtifacts({ ...this.repoAndOwner, run_id: run.id, ...this.requestSignal(signal) });
         const artifact = artifacts.data.artifacts.find(artifact => artifact.name.match(this.artifactName));
         if (!artifact) {
-            throw new Error(`No artifact found matching ${this.artifactName} in workflow run ${run.id}`);
+            throw new AssetNotFoundError(`No artifact found matching ${this.artifactName} in workflow run ${run.id}`, String(this.artifactName));
         }
 
         const artifactDownloadPath = path.join(temp, `${artifact.name}.zip`);
-        console.debug(`Downloading artifact ${artifact.name} from ${this.workflow}@${run.run_number} ...`);
+        this.logger.debug(`Downloading artifact ${artifact.name} from ${this.workflow}@${run.run_number} ...`);
 
-        await this.downloadArtifact(artifact.id, artifactDownloadPath);
+        await this.downloadArtifact(artifact.id, artifactDownloadPath, signal);
 
-        return this.extractArchive(artifactDownloadPath, dest);
+        return this.extractArchive(artifactDownloadPath, dest, { signal });
     }
 }
@@ -14,8 +14,18 @@
  * limitations under the License.
  */
 
-export { downloadFile } from './file-download.ts';
-export { Downloader, Downloadable, type Asset } from './downloader.ts';
-export { PACKAGE_MANAGER, VSCE_TARGETS, type PackageManager, type VsceTarget } from './downloader.ts';
+export { downloadFile, type DownloadFileOptions, type RetryPolicy } from './file-download.ts';
+export { Downloader, Downloadable, type Asset, type AssetSource, type GetAssetFn, type InstallHookFn, type DownloadableHooks, type DownloadableOptions, type DownloadResult, type DownloadStatus, type DownloadReport, type CacheStatus, type CheckStatus, type PlanAction, type PlanEntry, type VerifyStatus } from './downloader.ts';
+export { TargetInfo, type TargetArch, type TargetLibc, type TargetOs } from './target-info.ts';
+export { hostTarget, PACKAGE_MANAGER, VSCE_TARGETS, type PackageManager, type VsceTarget } from './downloader.ts';
+export { DEFAULT_LAYOUT, TARGET_LAYOUT } from './downloader.ts';
 export { GitHubReleaseAsset, GitHubRepoAsset, GitHubWorkflowAsset } from './github-assets.ts';
 export { ArchiveFileAsset, LocalFileAsset, WebFileAsset } from './file-assets.ts';
+export { Lockfile, type LockEntry } from './lockfile.ts';
+export { checkIntegrity, fileIntegrity } from './integrity.ts';
+export { createManifest, diffManifest, readReceipt, RECEIPT_FILE, type InstallReceipt, type Manifest, type ManifestDiff, type ManifestEntry } from './receipt.ts';
+export { createDownloadables, loadConfig, runFromConfig, validateConfig, type AssetConfig, type DownloaderConfig, type Template, type ToolConfig } from './config.ts';
+export { DownloadCache, type CacheEntry, type PruneOptions } from './cache.ts';
+export { FileLock, type FileLockOptions } from './file-lock.ts';
+export { AssetNotFoundError, DownloaderError, ERROR_CODES, ExtractionError, FrozenLockfileError, HttpError, IntegrityError, ReleaseNotFoundError, type ErrorCode } from './errors.ts';
+export { ConsoleLogger, LOG_LEVELS, type Logger, type LogLevel, type ProgressEvent } from './logger.ts';
@@ -0,0 +1,102 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { vol } from 'memfs';
+import { faker } from '@faker-js/faker';
+import { checkIntegrity, fileIntegrity, hexToIntegrity, parseChecksums, parseIntegrity } from './integrity.ts';
+
+vitest.mock('node:fs/promises');
+
+const HELLO_SHA256_HEX = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+const HELLO_SHA256 = 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=';
+const HELLO_SHA512 = 'sha512-m3HSJL1i83hdltRq0+o9czGb+8KJDKra4t/3JRlnPKcjI8PZm6XBHXx6zG4UuMXaDEZjR1wuXDre9G9zvN7AQw==';
+
+beforeEach(() => {
+    vol.reset();
+});
+
+describe('fileIntegrity', () => {
+
+    it('computes sha256 and sha512 integrity', async () => {
+        const filePath = faker.system.filePath();
+        vol.fromJSON({ [filePath]: 'hello' });
+
+        await expect(fileIntegrity(filePath)).resolves.toBe(HELLO_SHA256);
+        await expect(fileIntegrity(filePath, 'sha512')).resolves.toBe(HELLO_SHA512);
+    });
+
+});
+
+describe('checkIntegrity', () => {
+
+    it('accepts matching and rejects different content', async () => {
+        const filePath = faker.system.filePath();
+        vol.fromJSON({ [filePath]: 'hello' });
+
+        await expect(checkIntegrity(filePath, HELLO_SHA256)).resolves.toBe(true);
+        await expect(checkIntegrity(filePath, `sha256-${Buffer.alloc(32).toString('base64')}`)).resolves.toBe(false);
+    });
+
+    it('checks the strongest algorithm only', async () => {
+        const filePath = faker.system.filePath();
+        vol.fromJSON({ [filePath]: 'hello' });
+
+        await expect(checkIntegrity(filePath, `${HELLO_SHA256} ${HELLO_SHA512}`)).resolves.toBe(true);
+        await expect(checkIntegrity(filePath, `${HELLO_SHA256} sha512-${Buffer.alloc(64).toString('base64')}`)).resolves.toBe(false);
+    });
+
+});
+
+describe('parseIntegrity', () => {
+
+    it('rejects malformed integrity strings', () => {
+        expect(() => parseIntegrity('md5-abc')).toThrow('Invalid integrity');
+        expect(() => parseIntegrity(' ')).toThrow('Empty integrity');
+    });
+
+});
+
+describe('hexToIntegrity', () => {
+
+    it('derives the algorithm from the digest length', () => {
+        expect(hexToIntegrity(HELLO_SHA256_HEX)).toBe(HELLO_SHA256);
+        expect(() => hexToIntegrity('abcd')).toThrow('Invalid hex digest');
+    });
+
+});
+
+describe('parseChecksums', () => {
+
+    it('finds file in GNU style listing', () => {
+        const content = `${'0'.repeat(64)}  other.zip\n${HELLO_SHA256_HEX} *dist/tool.tar.gz\n`;
+        expect(parseChecksums(content, 'tool.tar.gz')).toBe(HELLO_SHA256);
+    });
+
+    it('finds file in BSD style listing', () => {
+        const content = `SHA256 (tool.tar.gz) = ${HELLO_SHA256_HEX}\n`;
+        expect(parseChecksums(content, 'tool.tar.gz')).toBe(HELLO_SHA256);
+    });
+
+    it('accepts single digest files', () => {
+        expect(parseChecksums(`${HELLO_SHA256_HEX}\n`, 'tool.tar.gz')).toBe(HELLO_SHA256);
+    });
+
+    it('returns undefined for unlisted files', () => {
+        expect(parseChecksums(`${HELLO_SHA256_HEX}  other.zip\n`, 'tool.tar.gz')).toBeUndefined();
+    });
+
+});
@@ -0,0 +1,132 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+
+const CHUNK_SIZE = 1024 * 1024;
+
+/**
+ * Hash algorithms supported for integrity strings.
+ */
+export const INTEGRITY_ALGORITHMS = ['sha256', 'sha384', 'sha512'] as const;
+export type IntegrityAlgorithm = typeof INTEGRITY_ALGORITHMS[number];
+
+/**
+ * Compute the integrity of a file as SRI-style string, e.g. `sha256-<base64 digest>`.
+ * @param filePath The file to hash.
+ * @param algorithm The hash algorithm to use, defaults to sha256.
+ * @returns The integrity string of the file content.
+ */
+export async function fileIntegrity(filePath: string, algorithm: IntegrityAlgorithm = 'sha256'): Promise<string> {
+    const hash = crypto.createHash(algorithm);
+    const handle = await fs.open(filePath, 'r');
+    try {
+        const buffer = Buffer.alloc(CHUNK_SIZE);
+        let bytesRead: number;
+        do {
+            ({ bytesRead } = await handle.read(buffer, 0, buffer.length, null));
+            hash.update(buffer.subarray(0, bytesRead));
+        } while (bytesRead > 0);
+    } finally {
+        await handle.close();
+    }
+    return `${algorithm}-${hash.digest('base64')}`;
+}
+
+/**
+ * A single hash of an integrity string.
+ */
+export type IntegrityHash = {
+    algorithm: IntegrityAlgorithm;
+    digest: string;
+};
+
+/**
+ * Parse an SRI-style integrity string, e.g. `sha256-<base64 digest>`.
+ * Multiple whitespace separated hashes are supported.
+ * @param integrity The integrity string to parse.
+ * @returns The list of hashes contained in the integrity string.
+ */
+export function parseIntegrity(integrity: string): IntegrityHash[] {
+    const hashes = integrity.trim().split(/\s+/).filter(h => h.length > 0).map(hash => {
+        const match = /^(sha256|sha384|sha512)-([A-Za-z0-9+/]+={0,2})$/.exec(hash);
+        if (!match) {
+            throw new Error(`Invalid integrity '${hash}', expected <sha256|sha384|sha512>-<base64 digest>`);
+        }
+        return { algorithm: match[1] as IntegrityAlgorithm, digest: match[2] };
+    });
+    if (hashes.length === 0) {
+        throw new Error('Empty integrity string');
+    }
+    return hashes;
+}
+
+/**
+ * Convert a hex encoded digest, e.g. from a checksum file, into an integrity string.
+ * The algorithm is derived from the digest length unless given explicitly.
+ * @param hex The hex encoded digest.
+ * @param algorithm The hash algorithm used to create the digest.
+ * @returns The integrity string.
+ */
+export function hexToIntegrity(hex: string, algorithm?: IntegrityAlgorithm): string {
+    const lengths: Record<number, IntegrityAlgorithm> = { 64: 'sha256', 96: 'sha384', 128: 'sha512' };
+    algorithm ??= lengths[hex.length];
+    if (algorithm === undefined || !/^[0-9a-fA-F]+$/.test(hex)) {
+        throw new Error(`Invalid hex digest '${hex}'`);
+    }
+    return `${algorithm}-${Buffer.from(hex, 'hex').toString('base64')}`;
+}
+
+/**
+ * Check a file against an expected integrity.
+ * As with SRI, only the strongest algorithm given is checked and any of its digests may match.
+ * @param filePath The file to check.
+ * @param expected The expected integrity string.
+ * @returns True if the file content matches the expected integrity.
+ */
+export async function checkIntegrity(filePath: string, expected: string): Promise<boolean> {
+    const hashes = parseIntegrity(expected);
+    const algorithm = [...INTEGRITY_ALGORITHMS].reverse().find(a => hashes.some(h => h.algorithm === a)) ?? 'sha256';
+    const actual = await fileIntegrity(filePath, algorithm);
+    return hashes.some(h => `${h.algorithm}-${h.digest}` === actual);
+}
+
+/**
+ * Look up the digest of a file from the content of a checksum file.
+ * Supports GNU coreutils (`<hex>  [*]<name>`) and BSD (`SHA256 (<name>) = <hex>`) style
+ * listings as well as files containing a single digest only.
+ * @param content The content of the checksum file.
+ * @param fileName The name of the file to look up.
+ * @returns The integrity string for the file, or undefined if not listed.
+ */
+export function parseChecksums(content: string, fileName: string): string | undefined {
+    const lines = content.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+    for (const line of lines) {
+        const gnu = /^([0-9a-fA-F]+)\s+\*?(.+)$/.exec(line);
+        if (gnu && gnu[2].split('/').pop() === fileName) {
+            return hexToIntegrity(gnu[1]);
+        }
+        const bsd = /^(SHA256|SHA384|SHA512)\s*\((.+)\)\s*=\s*([0-9a-fA-F]+)$/i.exec(line);
+        if (bsd && bsd[2].split('/').pop() === fileName) {
+            return hexToIntegrity(bsd[3], bsd[1].toLowerCase() as IntegrityAlgorithm);
+        }
+    }
+    if (lines.length === 1 && /^[0-9a-fA-F]+$/.test(lines[0])) {
+        return hexToIntegrity(lines[0]);
+    }
+    return undefined;
+}
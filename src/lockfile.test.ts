@@ -0,0 +1,102 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { vol } from 'memfs';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { faker } from '@faker-js/faker';
+import { isSameSource, Lockfile } from './lockfile.ts';
+
+vitest.mock('node:fs/promises');
+
+beforeEach(() => {
+    vol.reset();
+    vitest.clearAllMocks();
+});
+
+describe('Lockfile', () => {
+
+    it('loads empty lockfile if file does not exist', async () => {
+        const filePath = path.join(faker.system.directoryPath(), 'tools.lock.json');
+
+        const lockfile = await Lockfile.load(filePath);
+
+        expect(lockfile.filePath).toBe(filePath);
+        expect(lockfile.get('toolA', 'linux-x64')).toBeUndefined();
+    });
+
+    it('saves entries sorted and loads them again', async () => {
+        const filePath = path.join(faker.system.directoryPath(), 'tools.lock.json');
+        const entryA = { version: '1.0.0', source: { url: faker.internet.url(), integrity: 'sha256-abc' } };
+        const entryB = { version: '2.0.0', source: { releaseId: faker.number.int() } };
+
+        const lockfile = await Lockfile.load(filePath);
+        lockfile.set('toolB', 'win32-x64', entryB);
+        lockfile.set('toolA', 'linux-x64', entryA);
+        lockfile.set('toolA', 'darwin-arm64', entryA);
+        await lockfile.save();
+
+        const content = vol.readFileSync(filePath, 'utf8') as string;
+        expect(Object.keys(JSON.parse(content).tools)).toEqual(['toolA', 'toolB']);
+        expect(Object.keys(JSON.parse(content).tools.toolA)).toEqual(['darwin-arm64', 'linux-x64']);
+
+        const reloaded = await Lockfile.load(filePath);
+        expect(reloaded.get('toolA', 'linux-x64')).toEqual(entryA);
+        expect(reloaded.get('toolB', 'win32-x64')).toEqual(entryB);
+    });
+
+    it('records local sources relative to the lockfile', async () => {
+        const projectDir = faker.system.directoryPath();
+        const movedDir = `${projectDir}-moved`;
+        const source = { url: pathToFileURL(path.join(projectDir, 'tools', 'tool.tar.gz')).toString(), integrity: 'sha256-abc' };
+
+        const lockfile = await Lockfile.load(path.join(projectDir, 'tools.lock.json'));
+        lockfile.set('toolA', 'linux-x64', { version: '1.0.0', source });
+        await lockfile.save();
+        vol.renameSync(projectDir, movedDir);
+
+        const content = JSON.parse(vol.readFileSync(path.join(movedDir, 'tools.lock.json'), 'utf8') as string);
+        expect(content.tools.toolA['linux-x64'].source.url).toBe('tools/tool.tar.gz');
+        const moved = await Lockfile.load(path.join(movedDir, 'tools.lock.json'));
+        expect(moved.get('toolA', 'linux-x64')?.source).toEqual({
+            url: pathToFileURL(path.join(movedDir, 'tools', 'tool.tar.gz')).toString(),
+            integrity: 'sha256-abc',
+        });
+    });
+
+    it('rejects unsupported lockfile versions', async () => {
+        const filePath = path.join(faker.system.directoryPath(), 'tools.lock.json');
+        vol.fromJSON({ [filePath]: JSON.stringify({ lockfileVersion: 99, tools: {} }) });
+
+        await expect(Lockfile.load(filePath)).rejects.toThrow('Unsupported lockfile version 99');
+    });
+
+});
+
+describe('isSameSource', () => {
+
+    it('ignores the integrity', () => {
+        const url = faker.internet.url();
+        expect(isSameSource({ url, integrity: 'sha256-a' }, { url, integrity: 'sha256-b' })).toBe(true);
+    });
+
+    it('detects different origins', () => {
+        expect(isSameSource({ releaseId: 1 }, { releaseId: 2 })).toBe(false);
+        expect(isSameSource({ runId: 1 }, undefined)).toBe(false);
+    });
+
+});
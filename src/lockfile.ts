@@ -0,0 +1,130 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { AssetSource, VsceTarget } from './downloader.ts';
+
+export const LOCKFILE_VERSION = 1;
+
+/**
+ * Locked state of a single tool for a single target.
+ */
+export type LockEntry = {
+    /** Resolved version of the asset. */
+    version?: string;
+    /**
+     * Resolved source of the asset, including the integrity of the fetched file.
+     * File URLs are stored relative to the lockfile, so that the lockfile holds for every checkout.
+     */
+    source?: AssetSource;
+};
+
+/**
+ * Content of the lockfile, i.e., tools.lock.json.
+ */
+export type LockfileContent = {
+    lockfileVersion: number;
+    tools: Record<string, Partial<Record<VsceTarget, LockEntry>>>;
+};
+
+/**
+ * Compare the resolved origin of two sources, ignoring the integrity.
+ * @returns True if both sources refer to the same origin.
+ */
+export function isSameSource(a: AssetSource | undefined, b: AssetSource | undefined) {
+    return a?.url === b?.url
+        && a?.releaseId === b?.releaseId
+        && a?.runId === b?.runId
+        && a?.sha === b?.sha;
+}
+
+/**
+ * Lockfile recording the resolved version, source and integrity
+ * of each downloaded tool per target.
+ */
+export class Lockfile {
+
+    /**
+     * Load the lockfile from disk.
+     * @param filePath Path to the lockfile.
+     * @returns The loaded lockfile, or an empty one if the file does not exist.
+     */
+    public static async load(filePath: string): Promise<Lockfile> {
+        try {
+            const content = JSON.parse(await fs.readFile(filePath, { encoding: 'utf8' })) as LockfileContent;
+            if (content.lockfileVersion !== LOCKFILE_VERSION) {
+                throw new Error(`Unsupported lockfile version ${content.lockfileVersion} in ${filePath}`);
+            }
+            return new Lockfile(filePath, content);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+            return new Lockfile(filePath);
+        }
+    }
+
+    constructor(
+        public readonly filePath: string,
+        protected readonly content: LockfileContent = { lockfileVersion: LOCKFILE_VERSION, tools: {} },
+    ) {}
+
+    // File URL of the lockfile directory, the base of relative source URLs
+    protected get baseUrl() {
+        return pathToFileURL(`${path.dirname(path.resolve(this.filePath))}${path.sep}`);
+    }
+
+    /**
+     * Get the locked entry for a tool and target.
+     */
+    public get(tool: string, target: VsceTarget): LockEntry | undefined {
+        const entry = this.content.tools[tool]?.[target];
+        const url = entry?.source?.url;
+        if (url === undefined || URL.canParse(url)) {
+            return entry;
+        }
+        return { ...entry, source: { ...entry?.source, url: new URL(url, this.baseUrl).toString() } };
+    }
+
+    /**
+     * Set the locked entry for a tool and target.
+     */
+    public set(tool: string, target: VsceTarget, entry: LockEntry) {
+        const url = entry.source?.url;
+        if (url?.startsWith('file:')) {
+            const relative = path.posix.relative(this.baseUrl.pathname, new URL(url).pathname);
+            entry = { ...entry, source: { ...entry.source, url: relative } };
+        }
+        this.content.tools[tool] = { ...this.content.tools[tool], [target]: entry };
+    }
+
+    /**
+     * Write the lockfile to disk, with stable key order.
+     */
+    public async save() {
+        const sortKeys = <V>(record: Record<string, V>) => Object.fromEntries(
+            Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+        );
+        const tools = Object.fromEntries(
+            Object.entries(sortKeys(this.content.tools)).map(([tool, targets]) => [tool, sortKeys(targets)])
+        );
+        const content: LockfileContent = { lockfileVersion: LOCKFILE_VERSION, tools };
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(this.filePath, `${JSON.stringify(content, null, 2)}\n`, { encoding: 'utf8' });
+    }
+}
@@ -0,0 +1,73 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { ConsoleLogger } from './logger.ts';
+
+function mockStream(isTTY: boolean) {
+    return { isTTY, write: vitest.fn() } as unknown as NodeJS.WriteStream & { write: ReturnType<typeof vitest.fn> };
+}
+
+describe('ConsoleLogger', () => {
+
+    beforeEach(() => {
+        vitest.restoreAllMocks();
+    });
+
+    it('logs messages up to the configured level', () => {
+        const info = vitest.spyOn(console, 'info').mockImplementation(() => undefined);
+        const debug = vitest.spyOn(console, 'debug').mockImplementation(() => undefined);
+        const logger = new ConsoleLogger('info', mockStream(false));
+
+        logger.info('info message');
+        logger.debug('debug message');
+
+        expect(info).toHaveBeenCalledWith('info message');
+        expect(debug).not.toHaveBeenCalled();
+    });
+
+    it('logs nothing when silent', () => {
+        const error = vitest.spyOn(console, 'error').mockImplementation(() => undefined);
+        const logger = new ConsoleLogger('silent', mockStream(false));
+
+        logger.error('error message');
+
+        expect(error).not.toHaveBeenCalled();
+    });
+
+    it('renders a progress bar on a TTY', () => {
+        const stream = mockStream(true);
+        const logger = new ConsoleLogger('info', stream);
+
+        logger.progress({ type: 'download', url: 'https://example.com/tool.zip', bytes: 512, total: 1024 });
+        logger.progress({ type: 'download', url: 'https://example.com/tool.zip', bytes: 1024, total: 1024 });
+
+        expect(stream.write).toHaveBeenCalledWith(expect.stringContaining('tool.zip [##########----------] 50%'));
+        expect(stream.write).toHaveBeenLastCalledWith(expect.stringMatching(/tool\.zip \[#{20}\] 100% .*\n$/));
+    });
+
+    it('reports plain lines only without a TTY', () => {
+        const info = vitest.spyOn(console, 'info').mockImplementation(() => undefined);
+        const stream = mockStream(false);
+        const logger = new ConsoleLogger('info', stream);
+
+        logger.progress({ type: 'download', url: 'https://example.com/tool.zip', bytes: 1024, total: 1024 });
+        logger.progress({ type: 'done', tool: 'tool', target: 'linux-x64', destination: '/tools/tool' });
+
+        expect(stream.write).not.toHaveBeenCalled();
+        expect(info).toHaveBeenCalledWith('Copied tool for target linux-x64 to /tools/tool.');
+    });
+});
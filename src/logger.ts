@@ -0,0 +1,149 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'node:path';
+import type { VsceTarget } from './downloader.ts';
+
+/**
+ * Log levels, from least to most verbose.
+ */
+export const LOG_LEVELS = ['silent', 'error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Structured progress of a download run.
+ */
+export type ProgressEvent =
+    /** The asset of a tool has been resolved. */
+    | { type: 'resolve'; tool: string; target: VsceTarget; version: string | undefined }
+    /** Bytes of a file have been received, total is unknown if the server does not tell. */
+    | { type: 'download'; url: string; bytes: number; total: number | undefined }
+    /** An archive is being extracted. */
+    | { type: 'extract'; archive: string; dest: string }
+    /** A tool has been copied to its destination. */
+    | { type: 'done'; tool: string; target: VsceTarget; destination: string };
+
+/**
+ * Logger receiving messages and progress events.
+ */
+export interface Logger {
+    error(message: string, ...args: unknown[]): void;
+    warn(message: string, ...args: unknown[]): void;
+    info(message: string, ...args: unknown[]): void;
+    debug(message: string, ...args: unknown[]): void;
+
+    /**
+     * Receive a progress event, e.g. to render a progress bar.
+     */
+    progress?(event: ProgressEvent): void;
+}
+
+// Minimum interval between two renderings of the progress bar
+const RENDER_INTERVAL = 100;
+const BAR_WIDTH = 20;
+
+/**
+ * Logger writing to the console, filtered by log level.
+ * Download progress is rendered as progress bar if stderr is a TTY,
+ * otherwise progress is reported as plain lines only.
+ */
+export class ConsoleLogger implements Logger {
+    private lastRender = 0;
+
+    /**
+     * Creates an instance of ConsoleLogger.
+     * @param level The most verbose level to log, defaults to info.
+     * @param stream The stream to render the progress bar to, defaults to stderr.
+     */
+    constructor(
+        public level: LogLevel = 'info',
+        private readonly stream: NodeJS.WriteStream = process.stderr,
+    ) {}
+
+    protected enabled(level: Exclude<LogLevel, 'silent'>) {
+        return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(this.level);
+    }
+
+    public error(message: string, ...args: unknown[]) {
+        if (this.enabled('error')) {
+            console.error(message, ...args);
+        }
+    }
+
+    public warn(message: string, ...args: unknown[]) {
+        if (this.enabled('warn')) {
+            console.warn(message, ...args);
+        }
+    }
+
+    public info(message: string, ...args: unknown[]) {
+        if (this.enabled('info')) {
+            console.info(message, ...args);
+        }
+    }
+
+    public debug(message: string, ...args: unknown[]) {
+        if (this.enabled('debug')) {
+            console.debug(message, ...args);
+        }
+    }
+
+    public progress(event: ProgressEvent) {
+        switch (event.type) {
+            case 'resolve':
+                this.debug(`Resolved ${event.tool} version ${event.version ?? 'unknown'} for target ${event.target}.`);
+                break;
+            case 'download':
+                this.renderDownload(event.url, event.bytes, event.total);
+                break;
+            case 'extract':
+                this.debug(`Extracting ${event.archive} to ${event.dest} ...`);
+                break;
+            case 'done':
+                this.info(`Copied ${event.tool} for target ${event.target} to ${event.destination}.`);
+                break;
+        }
+    }
+
+    private renderDownload(url: string, bytes: number, total: number | undefined) {
+        if (!this.stream.isTTY || !this.enabled('info')) {
+            return;
+        }
+        const complete = total !== undefined && bytes >= total;
+        const now = Date.now();
+        if (!complete && now - this.lastRender < RENDER_INTERVAL) {
+            return;
+        }
+        this.lastRender = now;
+
+        const name = path.posix.basename(new URL(url).pathname);
+        const mb = (n: number) => (n / 1024 / 1024).toFixed(1);
+        let line: string;
+        if (total) {
+            const ratio = Math.min(1, bytes / total);
+            const filled = Math.round(ratio * BAR_WIDTH);
+            line = `${name} [${'#'.repeat(filled)}${'-'.repeat(BAR_WIDTH - filled)}] ${Math.round(ratio * 100)}% ${mb(bytes)}/${mb(total)} MB`;
+        } else {
+            line = `${name} ${mb(bytes)} MB`;
+        }
+        this.stream.write(`\r\x1b[K${line}${complete ? '\n' : ''}`);
+    }
+}
+
+/**
+ * Logger used unless another one is configured.
+ */
+export const DEFAULT_LOGGER = new ConsoleLogger();
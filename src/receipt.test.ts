@@ -0,0 +1,138 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vitest, beforeEach } from 'vitest';
+import { vol } from 'memfs';
+import path from 'node:path';
+import { faker } from '@faker-js/faker';
+import { createManifest, diffManifest, InstallReceipt, readReceipt, RECEIPT_FILE, RECEIPT_VERSION, writeReceipt } from './receipt.ts';
+
+vitest.mock('node:fs/promises');
+
+const HELLO_SHA256 = 'sha256-LPJNul+wow4m6DsqxbninhsWHlwfp0JecwQzYpOLmCQ=';
+
+beforeEach(() => {
+    vol.reset();
+});
+
+describe('createManifest', () => {
+
+    it('lists all files with size and integrity, except bookkeeping files', async () => {
+        const dir = faker.system.directoryPath();
+        vol.fromJSON({
+            './bin/tool': 'hello',
+            './README.md': 'hello',
+            './version.txt': '1.0.0',
+            './target.txt': 'linux-x64',
+            [`./${RECEIPT_FILE}`]: '{}',
+            './docs/version.txt': 'hello',
+        }, dir);
+
+        const manifest = await createManifest(dir);
+
+        expect(Object.keys(manifest)).toEqual(['README.md', 'bin/tool', 'docs/version.txt']);
+        expect(manifest['bin/tool']).toEqual({ size: 5, integrity: HELLO_SHA256 });
+    });
+
+    it('records symbolic links by their target without following them', async () => {
+        const dir = faker.system.directoryPath();
+        vol.fromJSON({ './lib/libfoo.so.1': 'hello', './share/doc': 'hello' }, dir);
+        vol.symlinkSync('libfoo.so.1', path.join(dir, 'lib', 'libfoo.so'));
+        vol.symlinkSync('../share', path.join(dir, 'lib', 'share'));
+        vol.symlinkSync('missing', path.join(dir, 'lib', 'dangling'));
+
+        const manifest = await createManifest(dir);
+
+        expect(manifest).toEqual({
+            'lib/dangling': { link: 'missing' },
+            'lib/libfoo.so': { link: 'libfoo.so.1' },
+            'lib/libfoo.so.1': { size: 5, integrity: HELLO_SHA256 },
+            'lib/share': { link: '../share' },
+            'share/doc': { size: 5, integrity: HELLO_SHA256 },
+        });
+    });
+});
+
+describe('diffManifest', () => {
+
+    it('reports modified, missing and extra files', async () => {
+        const dir = faker.system.directoryPath();
+        vol.fromJSON({ './a': 'hello', './b': 'hello', './c': 'hello' }, dir);
+        const manifest = await createManifest(dir);
+
+        vol.writeFileSync(path.join(dir, 'a'), 'hellO');
+        vol.writeFileSync(path.join(dir, 'b'), 'hello world');
+        vol.unlinkSync(path.join(dir, 'c'));
+        vol.writeFileSync(path.join(dir, 'd'), 'hello');
+        vol.writeFileSync(path.join(dir, 'version.txt'), '2.0.0');
+
+        await expect(diffManifest(dir, manifest)).resolves.toEqual({ modified: ['a', 'b'], missing: ['c'], extra: ['d'] });
+    });
+
+    it('compares symbolic links by their target', async () => {
+        const dir = faker.system.directoryPath();
+        vol.fromJSON({ './share/doc': 'hello' }, dir);
+        vol.symlinkSync('share', path.join(dir, 'a'));
+        vol.symlinkSync('missing', path.join(dir, 'b'));
+        vol.symlinkSync('share', path.join(dir, 'c'));
+        const manifest = await createManifest(dir);
+
+        vol.unlinkSync(path.join(dir, 'b'));
+        vol.symlinkSync('other', path.join(dir, 'b'));
+        vol.unlinkSync(path.join(dir, 'c'));
+        vol.writeFileSync(path.join(dir, 'c'), 'share');
+
+        await expect(diffManifest(dir, manifest)).resolves.toEqual({ modified: ['b', 'c'], missing: [], extra: [] });
+    });
+
+    it('reports all files missing if the folder does not exist', async () => {
+        const dir = faker.system.directoryPath();
+
+        await expect(diffManifest(dir, { a: { size: 5, integrity: HELLO_SHA256 } })).resolves.toEqual({ modified: [], missing: ['a'], extra: [] });
+    });
+});
+
+describe('receipt', () => {
+
+    it('writes and reads a receipt', async () => {
+        const dir = faker.system.directoryPath();
+        vol.mkdirSync(dir, { recursive: true });
+        const receipt: InstallReceipt = {
+            receiptVersion: RECEIPT_VERSION,
+            tool: 'toolA',
+            version: '1.0.0',
+            target: 'linux-x64',
+            source: { url: faker.internet.url(), integrity: HELLO_SHA256 },
+            installed: new Date().toISOString(),
+            files: { tool: { size: 5, integrity: HELLO_SHA256 } },
+        };
+
+        await writeReceipt(dir, receipt);
+
+        await expect(readReceipt(dir)).resolves.toEqual(receipt);
+    });
+
+    it('returns undefined without receipt', async () => {
+        await expect(readReceipt(faker.system.directoryPath())).resolves.toBeUndefined();
+    });
+
+    it('throws on unsupported receipt version', async () => {
+        const dir = faker.system.directoryPath();
+        vol.fromJSON({ [RECEIPT_FILE]: JSON.stringify({ receiptVersion: 99 }) }, dir);
+
+        await expect(readReceipt(dir)).rejects.toThrow('Unsupported receipt version 99');
+    });
+});
@@ -0,0 +1,164 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { AssetSource, VsceTarget } from './downloader.ts';
+import { fileIntegrity } from './integrity.ts';
+
+export const RECEIPT_VERSION = 1;
+
+/**
+ * Name of the install receipt in the tool folder.
+ */
+export const RECEIPT_FILE = 'receipt.json';
+
+// Bookkeeping files of the downloader, not part of the manifest
+const RECEIPT_FILES = [RECEIPT_FILE, 'version.txt', 'target.txt'];
+
+/**
+ * Installed file, keyed by its path relative to the tool folder.
+ * Symbolic links are recorded by their target, without following them.
+ */
+export type ManifestEntry = {
+    /** Size of the file in bytes. */
+    size: number;
+    /** SRI-style integrity of the file, i.e., sha256-<base64 digest>. */
+    integrity: string;
+} | {
+    /** Target of the symbolic link, as read from the link. */
+    link: string;
+};
+
+/**
+ * Files of a tool folder by their relative (posix) path.
+ */
+export type Manifest = Record<string, ManifestEntry>;
+
+/**
+ * Content of the install receipt, i.e., <tool folder>/receipt.json.
+ */
+export type InstallReceipt = {
+    receiptVersion: number;
+    tool: string;
+    version?: string;
+    target: VsceTarget;
+    /** Resolved source of the asset. */
+    source: AssetSource;
+    /** Time the tool was installed, as ISO string. */
+    installed: string;
+    files: Manifest;
+};
+
+/**
+ * Differences between a tool folder and its receipt, as relative (posix) paths.
+ */
+export type ManifestDiff = {
+    /** Files with different size or content. */
+    modified: string[];
+    /** Files listed in the receipt but not present. */
+    missing: string[];
+    /** Files present but not listed in the receipt. */
+    extra: string[];
+};
+
+// List files and symbolic links, the latter not followed even if linking to a directory
+async function listFiles(dir: string, prefix = ''): Promise<string[]> {
+    const entries = await fs.readdir(path.join(dir, prefix), { withFileTypes: true });
+    const files = await Promise.all(entries.map(async entry => {
+        const relPath = prefix ? `${prefix}/${entry.name}` : entry.name;
+        if (entry.isDirectory()) {
+            return listFiles(dir, relPath);
+        }
+        return (prefix || !RECEIPT_FILES.includes(entry.name)) ? [relPath] : [];
+    }));
+    return files.flat().sort();
+}
+
+/**
+ * Create the manifest of all files in a tool folder, excluding the bookkeeping files.
+ * @param dir The tool folder.
+ * @returns The manifest of the folder.
+ */
+export async function createManifest(dir: string): Promise<Manifest> {
+    const manifest: Manifest = {};
+    for (const file of await listFiles(dir)) {
+        const filePath = path.join(dir, file);
+        const stat = await fs.lstat(filePath);
+        manifest[file] = stat.isSymbolicLink()
+            ? { link: await fs.readlink(filePath) }
+            : { size: stat.size, integrity: await fileIntegrity(filePath) };
+    }
+    return manifest;
+}
+
+/**
+ * Compare a tool folder with the manifest of its receipt.
+ * File contents are only hashed if the size matches, symbolic links are compared by their target.
+ * @param dir The tool folder.
+ * @param manifest The manifest recorded on installation.
+ * @returns The differences, all empty if the folder is unchanged.
+ */
+export async function diffManifest(dir: string, manifest: Manifest): Promise<ManifestDiff> {
+    const files = await listFiles(dir).catch(() => [] as string[]);
+    const diff: ManifestDiff = {
+        modified: [],
+        missing: Object.keys(manifest).filter(file => !files.includes(file)).sort(),
+        extra: files.filter(file => !(file in manifest)),
+    };
+    for (const file of files.filter(file => file in manifest)) {
+        const filePath = path.join(dir, file);
+        const expected = manifest[file];
+        const stat = await fs.lstat(filePath);
+        const modified = 'link' in expected
+            ? !stat.isSymbolicLink() || await fs.readlink(filePath) !== expected.link
+            : stat.isSymbolicLink() || stat.size !== expected.size || await fileIntegrity(filePath) !== expected.integrity;
+        if (modified) {
+            diff.modified.push(file);
+        }
+    }
+    return diff;
+}
+
+/**
+ * Write the install receipt into a tool folder.
+ * @param dir The tool folder.
+ * @param receipt The receipt to write.
+ */
+export async function writeReceipt(dir: string, receipt: InstallReceipt) {
+    await fs.writeFile(path.join(dir, RECEIPT_FILE), `${JSON.stringify(receipt, null, 2)}\n`, { encoding: 'utf8' });
+}
+
+/**
+ * Read the install receipt of a tool folder.
+ * @param dir The tool folder.
+ * @returns The receipt, or undefined if the folder has none.
+ */
+export async function readReceipt(dir: string): Promise<InstallReceipt | undefined> {
+    const filePath = path.join(dir, RECEIPT_FILE);
+    try {
+        const receipt = JSON.parse(await fs.readFile(filePath, { encoding: 'utf8' })) as InstallReceipt;
+        if (receipt.receiptVersion !== RECEIPT_VERSION) {
+            throw new Error(`Unsupported receipt version ${receipt.receiptVersion} in ${filePath}`);
+        }
+        return receipt;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+            throw error;
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,60 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { VSCE_TARGETS } from './downloader.ts';
+import { TargetInfo } from './target-info.ts';
+
+describe('TargetInfo', () => {
+
+    it('decomposes targets into os, arch and libc', () => {
+        expect(new TargetInfo('win32-arm64')).toMatchObject({ os: 'win32', arch: 'arm64', libc: undefined });
+        expect(new TargetInfo('linux-armhf')).toMatchObject({ os: 'linux', arch: 'armhf', libc: 'glibc' });
+        expect(new TargetInfo('alpine-x64')).toMatchObject({ os: 'linux', arch: 'x64', libc: 'musl' });
+        expect(new TargetInfo('web')).toMatchObject({ os: 'web', arch: undefined, libc: undefined });
+    });
+
+    it('renders Rust target triples', () => {
+        expect(VSCE_TARGETS.map(target => new TargetInfo(target).rustTriple)).toEqual([
+            'x86_64-pc-windows-msvc',
+            'aarch64-pc-windows-msvc',
+            'x86_64-unknown-linux-gnu',
+            'aarch64-unknown-linux-gnu',
+            'armv7-unknown-linux-gnueabihf',
+            'x86_64-apple-darwin',
+            'aarch64-apple-darwin',
+            'x86_64-unknown-linux-musl',
+            'aarch64-unknown-linux-musl',
+            'wasm32-unknown-unknown',
+        ]);
+    });
+
+    it('renders Go, Node.js, CMake and Debian conventions', () => {
+        expect(new TargetInfo('linux-x64')).toMatchObject({
+            goos: 'linux', goarch: 'amd64', nodePlatform: 'linux', nodeArch: 'x64',
+            cmakeSystemName: 'Linux', cmakeSystemProcessor: 'x86_64', debianArch: 'amd64',
+        });
+        expect(new TargetInfo('linux-armhf')).toMatchObject({ goarch: 'arm', nodeArch: 'arm', cmakeSystemProcessor: 'armv7l', debianArch: 'armhf' });
+        expect(new TargetInfo('win32-x64')).toMatchObject({ goos: 'windows', cmakeSystemName: 'Windows', cmakeSystemProcessor: 'AMD64', debianArch: undefined });
+        expect(new TargetInfo('darwin-arm64')).toMatchObject({ goos: 'darwin', goarch: 'arm64', cmakeSystemProcessor: 'arm64' });
+        expect(new TargetInfo('web')).toMatchObject({ goos: 'js', goarch: 'wasm', nodePlatform: undefined, cmakeSystemName: undefined });
+    });
+
+    it('defaults executable and archive extensions per os', () => {
+        expect(new TargetInfo('win32-x64')).toMatchObject({ exeExtension: '.exe', archiveExtension: '.zip' });
+        expect(new TargetInfo('darwin-x64')).toMatchObject({ exeExtension: '', archiveExtension: '.tar.gz' });
+    });
+});
@@ -0,0 +1,131 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import type { VsceTarget } from './downloader.ts';
+
+/** Operating system of a target, web is VS Code for the Web. */
+export type TargetOs = 'win32' | 'linux' | 'darwin' | 'web';
+/** CPU architecture of a target, undefined for web. */
+export type TargetArch = 'x64' | 'arm64' | 'armhf' | undefined;
+/** C library of a Linux target, undefined for other operating systems. */
+export type TargetLibc = 'glibc' | 'musl' | undefined;
+
+const TARGETS: Record<VsceTarget, [TargetOs, TargetArch, TargetLibc]> = {
+    'win32-x64': ['win32', 'x64', undefined],
+    'win32-arm64': ['win32', 'arm64', undefined],
+    'linux-x64': ['linux', 'x64', 'glibc'],
+    'linux-arm64': ['linux', 'arm64', 'glibc'],
+    'linux-armhf': ['linux', 'armhf', 'glibc'],
+    'darwin-x64': ['darwin', 'x64', undefined],
+    'darwin-arm64': ['darwin', 'arm64', undefined],
+    'alpine-x64': ['linux', 'x64', 'musl'],
+    'alpine-arm64': ['linux', 'arm64', 'musl'],
+    'web': ['web', undefined, undefined],
+};
+
+const RUST_ARCH = { x64: 'x86_64', arm64: 'aarch64', armhf: 'armv7' } as const;
+const GO_ARCH = { x64: 'amd64', arm64: 'arm64', armhf: 'arm' } as const;
+const NODE_ARCH = { x64: 'x64', arm64: 'arm64', armhf: 'arm' } as const;
+const DEBIAN_ARCH = { x64: 'amd64', arm64: 'arm64', armhf: 'armhf' } as const;
+const CMAKE_SYSTEM_NAME = { win32: 'Windows', linux: 'Linux', darwin: 'Darwin' } as const;
+const CMAKE_PROCESSOR = {
+    win32: { x64: 'AMD64', arm64: 'ARM64', armhf: 'ARM' },
+    linux: { x64: 'x86_64', arm64: 'aarch64', armhf: 'armv7l' },
+    darwin: { x64: 'x86_64', arm64: 'arm64', armhf: 'arm' },
+} as const;
+
+/**
+ * Decomposes a VSCE target into operating system, architecture and C library,
+ * and renders the naming conventions commonly used for release assets of other projects.
+ * Rust and Go map web to their WebAssembly conventions, other properties are undefined
+ * if the convention has no name for the target, e.g. the Node.js platform for web.
+ */
+export class TargetInfo {
+    public readonly os: TargetOs;
+    public readonly arch: TargetArch;
+    public readonly libc: TargetLibc;
+
+    /**
+     * Creates an instance of TargetInfo.
+     * @param target The VSCE target.
+     */
+    constructor(
+        public readonly target: VsceTarget,
+    ) {
+        [this.os, this.arch, this.libc] = TARGETS[target];
+    }
+
+    /** Rust target triple, e.g. x86_64-unknown-linux-gnu, aarch64-apple-darwin or wasm32-unknown-unknown for web. */
+    public get rustTriple(): string {
+        if (this.os === 'web' || this.arch === undefined) {
+            return 'wasm32-unknown-unknown';
+        }
+        const arch = RUST_ARCH[this.arch];
+        switch (this.os) {
+            case 'win32':
+                return `${arch}-pc-windows-msvc`;
+            case 'darwin':
+                return `${arch}-apple-darwin`;
+            default:
+                return `${arch}-unknown-linux-${this.libc === 'musl' ? 'musl' : 'gnu'}${this.arch === 'armhf' ? 'eabihf' : ''}`;
+        }
+    }
+
+    /** Go operating system, i.e., GOOS windows, linux, darwin or js. */
+    public get goos(): string {
+        return { win32: 'windows', linux: 'linux', darwin: 'darwin', web: 'js' }[this.os];
+    }
+
+    /** Go architecture, i.e., GOARCH amd64, arm64, arm or wasm. */
+    public get goarch(): string {
+        return this.arch !== undefined ? GO_ARCH[this.arch] : 'wasm';
+    }
+
+    /** Node.js platform, i.e., process.platform. */
+    public get nodePlatform(): string | undefined {
+        return this.os !== 'web' ? this.os : undefined;
+    }
+
+    /** Node.js architecture, i.e., process.arch. */
+    public get nodeArch(): string | undefined {
+        return this.arch !== undefined ? NODE_ARCH[this.arch] : undefined;
+    }
+
+    /** CMake system name, i.e., CMAKE_SYSTEM_NAME. */
+    public get cmakeSystemName(): string | undefined {
+        return this.os !== 'web' ? CMAKE_SYSTEM_NAME[this.os] : undefined;
+    }
+
+    /** CMake system processor, i.e., CMAKE_SYSTEM_PROCESSOR as reported on the target. */
+    public get cmakeSystemProcessor(): string | undefined {
+        return this.os !== 'web' && this.arch !== undefined ? CMAKE_PROCESSOR[this.os][this.arch] : undefined;
+    }
+
+    /** Debian architecture of Linux targets, e.g. amd64 or armhf. */
+    public get debianArch(): string | undefined {
+        return this.os === 'linux' && this.arch !== undefined ? DEBIAN_ARCH[this.arch] : undefined;
+    }
+
+    /** File extension of executables, i.e., .exe on Windows and empty otherwise. */
+    public get exeExtension(): string {
+        return this.os === 'win32' ? '.exe' : '';
+    }
+
+    /** Default archive extension of release assets, i.e., .zip on Windows and .tar.gz otherwise. */
+    public get archiveExtension(): string {
+        return this.os === 'win32' ? '.zip' : '.tar.gz';
+    }
+}
@@ -0,0 +1,89 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { KeyedMutex, WorkQueue } from './work-queue.ts';
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+function trackingTask(state: { active: number; max: number }, result: string) {
+    return async () => {
+        state.active++;
+        state.max = Math.max(state.max, state.active);
+        await tick();
+        state.active--;
+        return result;
+    };
+}
+
+describe('WorkQueue', () => {
+
+    it('runs at most the given number of tasks concurrently', async () => {
+        const queue = new WorkQueue(2);
+        const state = { active: 0, max: 0 };
+
+        const results = await Promise.all(
+            ['a', 'b', 'c', 'd', 'e'].map(r => queue.run(trackingTask(state, r)))
+        );
+
+        expect(results).toEqual(['a', 'b', 'c', 'd', 'e']);
+        expect(state.max).toBe(2);
+    });
+
+    it('continues with waiting tasks after a failure', async () => {
+        const queue = new WorkQueue(1);
+
+        const failing = queue.run(async () => { throw new Error('failed'); });
+        const succeeding = queue.run(async () => 'ok');
+
+        await expect(failing).rejects.toThrow('failed');
+        await expect(succeeding).resolves.toBe('ok');
+    });
+
+    it('rejects invalid concurrency', () => {
+        expect(() => new WorkQueue(0)).toThrow(RangeError);
+    });
+
+});
+
+describe('KeyedMutex', () => {
+
+    it('serializes tasks with the same key', async () => {
+        const mutex = new KeyedMutex();
+        const state = { active: 0, max: 0 };
+
+        await Promise.all([
+            mutex.run('key', trackingTask(state, 'a')),
+            mutex.run('key', trackingTask(state, 'b')),
+        ]);
+
+        expect(state.max).toBe(1);
+    });
+
+    it('runs tasks with different or without keys concurrently', async () => {
+        const mutex = new KeyedMutex();
+        const state = { active: 0, max: 0 };
+
+        await Promise.all([
+            mutex.run('key1', trackingTask(state, 'a')),
+            mutex.run('key2', trackingTask(state, 'b')),
+            mutex.run(undefined, trackingTask(state, 'c')),
+        ]);
+
+        expect(state.max).toBe(3);
+    });
+
+});
@@ -0,0 +1,88 @@
+/**
+ * Copyright 2026 Arm Limited
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Queue running at most a given number of tasks concurrently.
+ */
+export class WorkQueue {
+    private running = 0;
+    private readonly waiting = [] as (() => void)[];
+
+    /**
+     * Creates an instance of WorkQueue.
+     * @param concurrency Maximum number of tasks running concurrently.
+     */
+    constructor(
+        public readonly concurrency: number = Infinity,
+    ) {
+        if (!(concurrency >= 1)) {
+            throw new RangeError(`Concurrency must be at least 1, got ${concurrency}`);
+        }
+    }
+
+    /**
+     * Run a task as soon as a slot is available.
+     * @param task The task to run.
+     * @returns A promise that settles with the task.
+     */
+    public async run<T>(task: () => Promise<T>): Promise<T> {
+        if (this.running >= this.concurrency) {
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        } else {
+            this.running++;
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                // Hand over the slot to the next waiting task
+                next();
+            } else {
+                this.running--;
+            }
+        }
+    }
+}
+
+/**
+ * Mutex serializing tasks sharing the same key.
+ */
+export class KeyedMutex {
+    private readonly tails = new Map<string, Promise<unknown>>();
+
+    /**
+     * Run a task after all previously issued tasks with the same key settled.
+     * @param key The key to serialize on, tasks without key run immediately.
+     * @param task The task to run.
+     * @returns A promise that settles with the task.
+     */
+    public async run<T>(key: string | undefined, task: () => Promise<T>): Promise<T> {
+        if (key === undefined) {
+            return task();
+        }
+        const previous = this.tails.get(key) ?? Promise.resolve();
+        const current = previous.catch(() => undefined).then(task);
+        this.tails.set(key, current);
+        try {
+            return await current;
+        } finally {
+            if (this.tails.get(key) === current) {
+                this.tails.delete(key);
+            }
+        }
+    }
+}